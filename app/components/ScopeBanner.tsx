@@ -0,0 +1,67 @@
+import { useFetcher, useRouteLoaderData } from "@remix-run/react";
+import { Banner, BlockStack, Box, List, Text } from "@shopify/polaris";
+import type { ScopeStatus } from "~/types/session";
+import { SCOPE_FEATURES } from "~/utils/scope-features";
+
+/**
+ * Warns when the shop hasn't approved every configured scope (mounted in
+ * routes/app.tsx). "Grant access" starts Shopify's managed re-consent via
+ * /app/api/scopes-request; Remix reloads the layout data once it returns,
+ * so the banner clears when the session turns out to be merely stale.
+ *
+ * Usage (disable a feature that needs a missing scope):
+ *   const { unavailableFeatures } = useScopeStatus();
+ *   <Button disabled={unavailableFeatures.includes("order_sync")}>...</Button>
+ */
+
+type ScopeRequestResult = { ok: true; missing: string[] } | { ok: false; error: string; message: string };
+
+export function useScopeStatus(): ScopeStatus {
+  const data = useRouteLoaderData<{ scopeStatus: ScopeStatus }>("routes/app");
+  if (!data) {
+    throw new Error("useScopeStatus() must be used inside routes/app");
+  }
+  return data.scopeStatus;
+}
+
+export function ScopeBanner() {
+  const { missing, unavailableFeatures } = useScopeStatus();
+  const fetcher = useFetcher<ScopeRequestResult>();
+
+  if (missing.length === 0) return null;
+
+  return (
+    <Box paddingBlockStart="400" paddingInline="400">
+      <Banner
+        tone="warning"
+        title="This app needs additional permissions"
+        action={{
+          content: "Grant access",
+          loading: fetcher.state !== "idle",
+          onAction: () => fetcher.submit({}, { method: "post", action: "/app/api/scopes-request" }),
+        }}
+      >
+        <BlockStack gap="200">
+          <Text as="p">
+            The app was updated to use access your store hasn't approved yet ({missing.join(", ")}).
+            {unavailableFeatures.length > 0 && " Until you grant it, these features are turned off:"}
+          </Text>
+          {unavailableFeatures.length > 0 && (
+            <List>
+              {unavailableFeatures.map((feature) => (
+                <List.Item key={feature}>
+                  {SCOPE_FEATURES[feature].label}: {SCOPE_FEATURES[feature].description}
+                </List.Item>
+              ))}
+            </List>
+          )}
+          {fetcher.data && !fetcher.data.ok && (
+            <Text as="p" tone="critical">
+              {fetcher.data.message}
+            </Text>
+          )}
+        </BlockStack>
+      </Banner>
+    </Box>
+  );
+}
@@ -0,0 +1,121 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, useSyncExternalStore } from "react";
+import type { ReactNode } from "react";
+import { Banner, Box, Modal, Text } from "@shopify/polaris";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { SessionManager } from "~/utils/session-refresh";
+import type { SessionSnapshot } from "~/utils/session-refresh";
+
+/**
+ * Session status for the embedded app (mounted in routes/app.tsx).
+ *
+ * Runs a SessionManager that refreshes the session silently through App
+ * Bridge idToken(). If that fails it shows a Polaris banner (about to
+ * expire) or modal (expired). The page is only reloaded when the merchant
+ * asks, with a warning while any form has unsaved changes.
+ *
+ * Usage (in a form with unsaved changes):
+ *   const { setFormDirty } = useSessionStatus();
+ *   useEffect(() => setFormDirty("settings", isDirty), [isDirty, setFormDirty]);
+ */
+
+interface SessionStatusContextValue extends SessionSnapshot {
+  /** Exchange a fresh session token now; resolves false if it failed */
+  refresh: () => Promise<boolean>;
+  /** Mark a form as having unsaved changes (clear it on save or unmount) */
+  setFormDirty: (formId: string, dirty: boolean) => void;
+  hasDirtyForms: boolean;
+}
+
+const SessionStatusContext = createContext<SessionStatusContextValue | null>(null);
+
+export function useSessionStatus(): SessionStatusContextValue {
+  const context = useContext(SessionStatusContext);
+  if (!context) {
+    throw new Error("useSessionStatus() must be used inside <SessionStatusProvider>");
+  }
+  return context;
+}
+
+export function SessionStatusProvider({ children }: { children: ReactNode }) {
+  const shopify = useAppBridge();
+  const [manager] = useState(() => new SessionManager({ getSessionToken: () => shopify.idToken() }));
+  const snapshot = useSyncExternalStore(manager.subscribe, manager.getSnapshot, manager.getSnapshot);
+
+  const [dirtyForms, setDirtyForms] = useState<string[]>([]);
+  const [bannerDismissed, setBannerDismissed] = useState(false);
+  const hasDirtyForms = dirtyForms.length > 0;
+
+  useEffect(() => {
+    manager.start();
+    return () => manager.stop();
+  }, [manager]);
+
+  // Show the banner again the next time the session is about to expire
+  useEffect(() => {
+    if (snapshot.state !== "expiring") setBannerDismissed(false);
+  }, [snapshot.state]);
+
+  // The browser's own prompt covers reloads and navigation we don't control
+  useEffect(() => {
+    if (!hasDirtyForms) return;
+    const warn = (event: BeforeUnloadEvent) => event.preventDefault();
+    window.addEventListener("beforeunload", warn);
+    return () => window.removeEventListener("beforeunload", warn);
+  }, [hasDirtyForms]);
+
+  const setFormDirty = useCallback((formId: string, dirty: boolean) => {
+    setDirtyForms((current) => {
+      if (dirty === current.includes(formId)) return current;
+      return dirty ? [...current, formId] : current.filter((id) => id !== formId);
+    });
+  }, []);
+
+  const refresh = useCallback(() => manager.refresh(), [manager]);
+
+  const value = useMemo(
+    () => ({ ...snapshot, refresh, setFormDirty, hasDirtyForms }),
+    [snapshot, refresh, setFormDirty, hasDirtyForms]
+  );
+
+  return (
+    <SessionStatusContext.Provider value={value}>
+      {snapshot.state === "expiring" && !bannerDismissed && (
+        <Box padding="400">
+          <Banner
+            tone="warning"
+            title="Your session is about to expire"
+            action={{ content: "Stay signed in", onAction: refresh }}
+            onDismiss={() => setBannerDismissed(true)}
+          >
+            <Text as="p">We couldn't renew your session automatically.</Text>
+          </Banner>
+        </Box>
+      )}
+
+      {children}
+
+      <Modal
+        open={snapshot.state === "expired"}
+        onClose={() => undefined}
+        title="Session expired"
+        primaryAction={{
+          content: hasDirtyForms ? "Reload and discard changes" : "Reload",
+          destructive: hasDirtyForms,
+          onAction: () => window.location.reload(),
+        }}
+        secondaryActions={[{ content: "Try again", onAction: refresh }]}
+      >
+        <Modal.Section>
+          <Text as="p">Your session has expired. Reload the app to continue.</Text>
+          {hasDirtyForms && (
+            <Box paddingBlockStart="200">
+              <Text as="p" tone="critical">
+                You have unsaved changes on this page. Reloading discards them, so copy anything you need first.
+              </Text>
+            </Box>
+          )}
+        </Modal.Section>
+      </Modal>
+    </SessionStatusContext.Provider>
+  );
+}
@@ -13,16 +13,47 @@ export default [
   // Using layout() for app routes ensures proper auth context
   layout("routes/app.tsx", [
     route("app", "routes/app._index.tsx"),
+    // Billing - plan selection page, change/cancel a plan, keep a plan with a scheduled downgrade,
+    // return from Shopify's confirmation page
+    route("app/billing", "routes/app.billing._index.tsx"),
+    route("app/billing/subscribe", "routes/app.billing.subscribe.tsx"),
+    route("app/billing/cancel", "routes/app.billing.cancel.tsx"),
+    route("app/billing/keep-plan", "routes/app.billing.keep-plan.tsx"),
+    route("app/billing/confirm", "routes/app.billing.confirm.tsx"),
+    // Charge approval page for BILLING_PROVIDER=fake (404 otherwise)
+    route("app/billing/fake-confirm", "routes/app.billing.fake-confirm.tsx"),
+    // Session status for the client session utilities (session-refresh.ts, auth-helper.ts)
+    route("app/api/session-check", "routes/app.api.session-check.tsx"),
+    route("app/api/session-refresh", "routes/app.api.session-refresh.tsx"),
+    // Managed re-consent for scopes the shop hasn't approved (ScopeBanner)
+    route("app/api/scopes-request", "routes/app.api.scopes-request.tsx"),
+    // Staff roles - the account owner assigns a role to each staff member
+    route("app/settings/staff", "routes/app.settings.staff.tsx"),
     // Add authenticated app routes here
   ]),
 
-  // GDPR Compliance Webhooks (required)
-  route("webhooks/customers/data_request", "routes/webhooks.customers.data_request.tsx"),
-  route("webhooks/customers/redact", "routes/webhooks.customers.redact.tsx"),
-  route("webhooks/shop/redact", "routes/webhooks.shop.redact.tsx"),
+  // Webhooks - one endpoint for every topic (GDPR compliance + app lifecycle)
+  // Handlers are registered per topic in utils/webhook-handlers.server.ts
+  route("webhooks", "routes/webhooks.tsx"),
 
-  // App lifecycle webhook
-  route("webhooks/app/uninstalled", "routes/webhooks.app.uninstalled.tsx"),
+  // Operator console - outside the embedded app, sign in with ADMIN_SECRET (utils/superadmin-auth.server.ts)
+  layout("routes/superadmin.tsx", [
+    route("superadmin", "routes/superadmin._index.tsx"),
+    route("superadmin/login", "routes/superadmin.login.tsx"),
+    route("superadmin/logout", "routes/superadmin.logout.tsx"),
+    route("superadmin/audit", "routes/superadmin.audit.tsx"),
+    route("superadmin/shops/:shop", "routes/superadmin.shops.$shop.tsx"),
+    route("superadmin/shops/:shop/view", "routes/superadmin.shops.$shop.view.tsx"),
+  ]),
+
+  // Internal admin endpoints (Authorization: Bearer ADMIN_SECRET)
+  route("api/admin/webhooks/:id/replay", "routes/api.admin.webhooks.$id.replay.tsx"),
+
+  // Migration endpoints (Authorization: Bearer MIGRATION_SECRET)
+  route("api/migrations/encrypt-sessions", "routes/api.migrations.encrypt-sessions.tsx"),
+
+  // Cron endpoints (Authorization: Bearer CRON_SECRET)
+  route("api/cron/jobs", "routes/api.cron.jobs.tsx"),
 
   // Add your custom routes here
 ] satisfies RouteConfig;
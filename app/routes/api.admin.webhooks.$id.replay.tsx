@@ -0,0 +1,40 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { env } from "~/utils/env.server";
+import { requireBearerSecret } from "~/utils/secret-auth.server";
+import { replayWebhookEvent } from "~/utils/webhook-inbox.server";
+
+/**
+ * Replay a stored webhook event by its WebhookEvent id.
+ *
+ *   curl -X POST -H "Authorization: Bearer $ADMIN_SECRET" \
+ *     https://your-app.vercel.app/api/admin/webhooks/<id>/replay
+ */
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  requireBearerSecret(request, env.adminSecret, "ADMIN_SECRET");
+
+  if (request.method !== "POST") {
+    return json({ ok: false, error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const event = await replayWebhookEvent(params.id!);
+    if (!event) {
+      return json({ ok: false, error: "Webhook event not found" }, { status: 404 });
+    }
+
+    return json({
+      ok: true,
+      data: { id: event.id, topic: event.topic, shop: event.shop, status: event.status },
+    });
+  } catch (error) {
+    return json(
+      {
+        ok: false,
+        error: "Replay failed",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,25 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { env } from "~/utils/env.server";
+import { logger } from "~/utils/logger.server";
+import { requireBearerSecret } from "~/utils/secret-auth.server";
+import { drainJobs, pruneCompletedJobs } from "~/utils/job-queue.server";
+import { deadJobHandlers, jobHandlers } from "~/utils/job-handlers.server";
+
+/**
+ * Drains the background job queue.
+ * Triggered by Vercel Cron (see vercel.json), which sends
+ * `Authorization: Bearer $CRON_SECRET` automatically.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  requireBearerSecret(request, env.cronSecret, "CRON_SECRET");
+
+  const result = await drainJobs(jobHandlers, { deadHandlers: deadJobHandlers });
+  const pruned = await pruneCompletedJobs();
+
+  if (result.claimed > 0) {
+    logger.info("Job queue drained", { ...result, pruned });
+  }
+
+  return json({ ok: true, data: { ...result, pruned } });
+};
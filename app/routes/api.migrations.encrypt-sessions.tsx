@@ -0,0 +1,39 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { env } from "~/utils/env.server";
+import { requireBearerSecret } from "~/utils/secret-auth.server";
+import { reencryptSessionTokens } from "~/utils/encrypted-session-storage.server";
+
+/**
+ * Encrypt stored access tokens with the current SESSION_ENCRYPTION_KEYS
+ * key (plaintext rows, and rows on an older key after a rotation).
+ * Handles up to `limit` rows per call; call again until `remaining` is 0.
+ *
+ *   curl -X POST -H "Authorization: Bearer $MIGRATION_SECRET" \
+ *     "https://your-app.vercel.app/api/migrations/encrypt-sessions?limit=500"
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  requireBearerSecret(request, env.migrationSecret, "MIGRATION_SECRET");
+
+  if (request.method !== "POST") {
+    return json({ ok: false, error: "Method not allowed" }, { status: 405 });
+  }
+
+  const url = new URL(request.url);
+  const limit = Math.min(Math.max(Number(url.searchParams.get("limit")) || 500, 1), 5000);
+  const after = url.searchParams.get("after") || undefined;
+
+  try {
+    const result = await reencryptSessionTokens({ limit, after });
+    return json({ ok: true, data: result });
+  } catch (error) {
+    return json(
+      {
+        ok: false,
+        error: "Re-encryption failed",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+};
@@ -1,8 +1,10 @@
 import type { LoaderFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
 import { useLoaderData, useFetcher } from "@remix-run/react";
-import { Page, Layout, Card, Text, BlockStack, Banner } from "@shopify/polaris";
+import { Page, Layout, Card, Text, BlockStack, Banner, Badge, InlineStack } from "@shopify/polaris";
 import { authenticate } from "../shopify.server";
+import { useScopeStatus } from "~/components/ScopeBanner";
+import { SCOPED_FEATURES, SCOPE_FEATURES } from "~/utils/scope-features";
 
 export async function loader({ request }: LoaderFunctionArgs) {
   const { session } = await authenticate.admin(request);
@@ -14,6 +16,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
 
 export default function AppIndex() {
   const { shop } = useLoaderData<typeof loader>();
+  const { unavailableFeatures } = useScopeStatus();
 
   // IMPORTANT: For embedded Shopify apps, always use useFetcher() instead of useSubmit()
   // The new embedded auth strategy requires useFetcher() for proper session token handling
@@ -45,6 +48,31 @@ export default function AppIndex() {
                 </Text>
               </BlockStack>
             </Card>
+
+            <Card>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">
+                  Features
+                </Text>
+                {SCOPED_FEATURES.map((feature) => (
+                  <InlineStack key={feature} align="space-between" blockAlign="center">
+                    <BlockStack gap="100">
+                      <Text as="p" fontWeight="semibold">
+                        {SCOPE_FEATURES[feature].label}
+                      </Text>
+                      <Text as="p" tone="subdued">
+                        {SCOPE_FEATURES[feature].description}
+                      </Text>
+                    </BlockStack>
+                    {unavailableFeatures.includes(feature) ? (
+                      <Badge tone="attention">Needs access</Badge>
+                    ) : (
+                      <Badge tone="success">On</Badge>
+                    )}
+                  </InlineStack>
+                ))}
+              </BlockStack>
+            </Card>
           </BlockStack>
         </Layout.Section>
       </Layout>
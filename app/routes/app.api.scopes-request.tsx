@@ -0,0 +1,50 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { authenticate } from "~/shopify.server";
+import { logger } from "~/utils/logger.server";
+import { getScopeStatus } from "~/utils/scopes.server";
+import { refreshSession } from "~/utils/session-status.server";
+
+/**
+ * Managed re-consent for scopes missing from the stored session. POSTed by
+ * "Grant access" on the scope banner (components/ScopeBanner.tsx).
+ *
+ * scopes.request() sends the merchant to Shopify's grant screen. If Shopify
+ * says the scopes are already granted, only the stored session is out of
+ * date, so it's replaced by a fresh token exchange instead.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session, scopes } = await authenticate.admin(request);
+  const { missing } = getScopeStatus(session.scope);
+
+  if (missing.length === 0) {
+    return json({ ok: true as const, missing });
+  }
+
+  try {
+    await scopes.request(missing);
+
+    const refreshed = await refreshSession(request);
+    const status = getScopeStatus(refreshed.scopes.join(","));
+    logger.info("Session refreshed after scope check", { shop: session.shop, missing: status.missing });
+
+    return json({ ok: true as const, missing: status.missing });
+  } catch (error) {
+    // Redirect to the grant screen, or 401 from authenticate.admin
+    if (error instanceof Response) throw error;
+
+    logger.error("Scope request failed", {
+      shop: session.shop,
+      missing,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return json(
+      {
+        ok: false as const,
+        error: "Could not request access",
+        message: "Shopify couldn't open the permissions screen. Reopen the app from your Shopify admin to approve it.",
+      },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,18 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import type { SessionStatusResponse } from "~/types/session";
+import { getSessionStatus } from "~/utils/session-status.server";
+
+/**
+ * Polled by SessionManager (utils/session-refresh.ts) to warn before the
+ * session expires. Invalid session tokens get the 401 from authenticate.admin.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  return json<SessionStatusResponse>(
+    { ok: true, ...getSessionStatus(session) },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+};
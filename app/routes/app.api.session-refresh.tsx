@@ -0,0 +1,25 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import type { SessionStatusResponse } from "~/types/session";
+import { logger } from "~/utils/logger.server";
+import { refreshSession } from "~/utils/session-status.server";
+
+/**
+ * Force a token exchange and return the new expiry. POSTed by
+ * "Extend Session" (utils/session-refresh.ts) and handleAuthError
+ * (utils/auth-helper.ts).
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  try {
+    const status = await refreshSession(request);
+    return json<SessionStatusResponse>({ ok: true, ...status }, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    // 401 / bounce responses from authenticate.admin
+    if (error instanceof Response) throw error;
+
+    logger.error("Session refresh failed", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return json({ ok: false, error: "Could not refresh session" }, { status: 500 });
+  }
+};
@@ -0,0 +1,469 @@
+import { useState } from "react";
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useLoaderData, useFetcher } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  InlineGrid,
+  Banner,
+  Badge,
+  Button,
+  ButtonGroup,
+  ProgressBar,
+  List,
+  Modal,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import { useScopeStatus } from "~/components/ScopeBanner";
+import type { BillingInterval, PlanTier } from "~/types/billing";
+import { getSubscriptionInfo } from "~/utils/billing-usage.server";
+import { getOpenPlanChange } from "~/utils/billing.server";
+import type { PlanFeature, PlanSelection } from "~/utils/billing-plans";
+import {
+  FREE_PLAN_TIER,
+  PLAN_TIERS,
+  PRICING_PLANS,
+  classifyPlanChange,
+  describeDowngrade,
+  inactivePlanMessage,
+  isPaidPlan,
+  isPlanTier,
+  orderLimitLabel,
+  periodOrderLimit,
+  planPrice,
+  supportsInterval,
+} from "~/utils/billing-plans";
+import { formatMoney } from "~/utils/formatters";
+import { getCurrentStaff } from "~/utils/staff.server";
+import { resolveStaffRole } from "~/utils/staff-roles.server";
+import { ROLE_LABELS, hasPermission } from "~/utils/staff-permissions";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const auth = await authenticate.admin(request);
+  const { session } = auth;
+  const url = new URL(request.url);
+
+  const [subscription, openChange, role] = await Promise.all([
+    getSubscriptionInfo(session.shop),
+    getOpenPlanChange(session.shop),
+    resolveStaffRole(session.shop, getCurrentStaff(auth)),
+  ]);
+  const required = url.searchParams.get("required");
+
+  return json({
+    subscription,
+    // A downgrade waiting for the end of the billing period
+    scheduledChange:
+      openChange?.status === "scheduled" && isPlanTier(openChange.toTier)
+        ? { toTier: openChange.toTier, toInterval: openChange.toInterval, effectiveAt: openChange.effectiveAt }
+        : null,
+    // Set when returning from Shopify's confirmation page
+    confirmation: url.searchParams.get("billing"),
+    // Set when withPlan redirected here from a gated page
+    requiredTier: isPlanTier(required) ? required : null,
+    feature: url.searchParams.get("feature"),
+    shopifyPlusRequired: url.searchParams.get("shopifyPlus") === "true",
+    limitReached: url.searchParams.get("limitReached") === "true",
+    inactiveStatus: url.searchParams.get("inactive"),
+    // Viewers and editors can see the plan but not change it
+    canManageBilling: hasPermission(role, "billing:manage"),
+    roleLabel: ROLE_LABELS[role],
+  });
+}
+
+type FetcherData = { ok: boolean; error?: string; message?: string };
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleDateString(undefined, { dateStyle: "medium" }) : null;
+}
+
+const CONFIRMATION_BANNERS: Record<string, { tone: "success" | "warning" | "info"; text: string }> = {
+  activated: { tone: "success", text: "Your plan is active. Thanks for subscribing!" },
+  declined: { tone: "warning", text: "The charge was declined, so your plan hasn't changed." },
+  pending: { tone: "info", text: "Your plan change is waiting for approval in Shopify." },
+  scheduled: { tone: "success", text: "Your new plan is approved and starts at the end of this billing period." },
+};
+
+const FEATURE_LABELS: Record<PlanFeature, string> = {
+  analytics: "Analytics",
+  experiments: "Experiments",
+  api_access: "API access",
+};
+
+const INTERVAL_LABELS: Record<BillingInterval, string> = {
+  EVERY_30_DAYS: "month",
+  ANNUAL: "year",
+};
+
+export default function Billing() {
+  const {
+    subscription,
+    scheduledChange,
+    confirmation,
+    requiredTier,
+    feature,
+    shopifyPlusRequired,
+    limitReached,
+    inactiveStatus,
+    canManageBilling,
+    roleLabel,
+  } = useLoaderData<typeof loader>();
+
+  // IMPORTANT: useFetcher() (not useSubmit) so the session token is sent
+  const subscribeFetcher = useFetcher<FetcherData>();
+  const cancelFetcher = useFetcher<FetcherData>();
+  const keepPlanFetcher = useFetcher<FetcherData>();
+  const { unavailableFeatures } = useScopeStatus();
+
+  const currentTier: PlanTier = subscription?.planTier ?? FREE_PLAN_TIER;
+  const currentPlan = PRICING_PLANS[currentTier];
+  const current: PlanSelection = { tier: currentTier, interval: subscription?.interval ?? currentPlan.interval };
+
+  const [billingInterval, setBillingInterval] = useState<BillingInterval>(current.interval);
+  // Plan the merchant is about to downgrade to (confirmation modal)
+  const [downgradeTo, setDowngradeTo] = useState<PlanSelection | null>(null);
+
+  const pendingTier = subscribeFetcher.state !== "idle" ? subscribeFetcher.formData?.get("plan") : null;
+  const error = [subscribeFetcher.data, cancelFetcher.data, keepPlanFetcher.data].find((data) => data && !data.ok);
+
+  const trialDaysLeft = subscription?.trialEndsAt
+    ? Math.max(0, Math.ceil((new Date(subscription.trialEndsAt).getTime() - Date.now()) / DAY_MS))
+    : 0;
+  const nextBillingDate = isPaidPlan(currentTier) ? formatDate(subscription?.billingPeriodEnd ?? null) : null;
+
+  const orderCount = subscription?.orderCount ?? 0;
+  const orderLimit = subscription?.orderLimit ?? periodOrderLimit(current.tier, current.interval);
+  const usagePercent = Math.min(100, Math.round((orderCount / orderLimit) * 100));
+  const isTrackingOrders = !unavailableFeatures.includes("order_sync");
+
+  const selectionFor = (tier: PlanTier): PlanSelection => ({
+    tier,
+    interval: supportsInterval(tier, billingInterval) ? billingInterval : PRICING_PLANS[tier].interval,
+  });
+
+  const submitPlan = (selection: PlanSelection) => {
+    if (isPaidPlan(selection.tier)) {
+      subscribeFetcher.submit(
+        { plan: selection.tier, interval: selection.interval },
+        { method: "post", action: "/app/billing/subscribe" }
+      );
+    } else {
+      cancelFetcher.submit({}, { method: "post", action: "/app/billing/cancel" });
+    }
+  };
+
+  const choosePlan = (selection: PlanSelection) => {
+    if (classifyPlanChange(current, selection) === "downgrade") {
+      setDowngradeTo(selection);
+      return;
+    }
+    submitPlan(selection);
+  };
+
+  const confirmDowngrade = () => {
+    if (downgradeTo) submitPlan(downgradeTo);
+    setDowngradeTo(null);
+  };
+
+  const keepPlan = () => {
+    keepPlanFetcher.submit({}, { method: "post", action: "/app/billing/keep-plan" });
+  };
+
+  const confirmationBanner = confirmation ? CONFIRMATION_BANNERS[confirmation] : null;
+  const downgrade = downgradeTo ? describeDowngrade({ planTier: currentTier, orderCount }, downgradeTo) : null;
+  // Downgrades during a trial apply right away; otherwise at the end of the period
+  const downgradeDate = trialDaysLeft > 0 ? null : formatDate(subscription?.billingPeriodEnd ?? null);
+
+  return (
+    <Page title="Plans & billing" backAction={{ content: "Dashboard", url: "/app" }}>
+      <Layout>
+        <Layout.Section>
+          <BlockStack gap="400">
+            {scheduledChange && (
+              <Banner
+                tone="warning"
+                title={`Your plan changes to ${PRICING_PLANS[scheduledChange.toTier].name} on ${formatDate(scheduledChange.effectiveAt)}`}
+                action={
+                  canManageBilling
+                    ? {
+                        content: "Keep current plan",
+                        onAction: keepPlan,
+                        loading: keepPlanFetcher.state !== "idle",
+                      }
+                    : undefined
+                }
+              >
+                <Text as="p">
+                  You keep everything in the {currentPlan.name} plan until then. Features that aren't in the{" "}
+                  {PRICING_PLANS[scheduledChange.toTier].name} plan lock on that date; none of your data is deleted.
+                </Text>
+              </Banner>
+            )}
+
+            {confirmationBanner && (
+              <Banner tone={confirmationBanner.tone}>
+                <Text as="p">{confirmationBanner.text}</Text>
+              </Banner>
+            )}
+
+            {subscription?.isDevelopmentStore && (
+              <Banner tone="info">
+                <Text as="p">
+                  This is a development store: every feature is unlocked for free, and any plan you pick is created
+                  as a test charge.
+                </Text>
+              </Banner>
+            )}
+
+            {shopifyPlusRequired ? (
+              <Banner tone="warning">
+                <Text as="p">
+                  {feature ? `The ${feature} feature` : "That page"} is only available to Shopify Plus stores.
+                </Text>
+              </Banner>
+            ) : limitReached ? (
+              <Banner tone="critical">
+                <Text as="p">
+                  {feature ? `The ${feature} feature` : "That page"} is locked because you've reached your plan's
+                  order limit. Upgrade, or it unlocks when your next billing period starts.
+                </Text>
+              </Banner>
+            ) : inactiveStatus ? (
+              <Banner tone="warning">
+                <Text as="p">{inactivePlanMessage(inactiveStatus)}</Text>
+              </Banner>
+            ) : requiredTier && (
+              <Banner tone="info">
+                <Text as="p">
+                  {feature ? `The ${feature} feature` : "That page"} requires the{" "}
+                  {PRICING_PLANS[requiredTier].name} plan or higher.
+                </Text>
+              </Banner>
+            )}
+
+            {!canManageBilling && (
+              <Banner tone="info">
+                <Text as="p">
+                  Your role ({roleLabel}) can view billing but not change the plan. Ask the store owner for access.
+                </Text>
+              </Banner>
+            )}
+
+            {error && (
+              <Banner tone="critical">
+                <Text as="p">{error.message || error.error}</Text>
+              </Banner>
+            )}
+
+            <Card>
+              <BlockStack gap="300">
+                <InlineStack align="space-between" blockAlign="center">
+                  <Text as="h2" variant="headingMd">
+                    Current plan: {currentPlan.name}
+                  </Text>
+                  <InlineStack gap="200">
+                    {trialDaysLeft > 0 && <Badge tone="info">{`Trial: ${trialDaysLeft} days left`}</Badge>}
+                    <Badge tone={subscription?.planStatus === "active" ? "success" : "attention"}>
+                      {subscription?.planStatus ?? "active"}
+                    </Badge>
+                  </InlineStack>
+                </InlineStack>
+
+                {nextBillingDate && (
+                  <Text as="p" tone="subdued">
+                    Next billing date: {nextBillingDate}
+                  </Text>
+                )}
+
+                <BlockStack gap="200">
+                  <InlineStack align="space-between">
+                    <Text as="p">Orders this billing period</Text>
+                    <Text as="p" fontWeight="semibold">
+                      {orderCount.toLocaleString()} / {orderLimit.toLocaleString()}
+                    </Text>
+                  </InlineStack>
+                  <ProgressBar
+                    progress={usagePercent}
+                    tone={subscription?.isInGrace || subscription?.isLimitReached ? "critical" : "primary"}
+                  />
+                  {!isTrackingOrders && (
+                    <Text as="p" tone="subdued">
+                      New orders aren't counted until you grant the app access to orders.
+                    </Text>
+                  )}
+                </BlockStack>
+
+                {subscription?.isLimitReached ? (
+                  <Banner tone="critical">
+                    <Text as="p">
+                      You've reached your plan's order limit. Orders are still synced and counted, but plan features
+                      stay locked until the next billing period or an upgrade.
+                    </Text>
+                  </Banner>
+                ) : subscription?.isInGrace ? (
+                  <Banner tone="warning">
+                    <Text as="p">
+                      You're over your plan's order limit and using the grace allowance ({subscription.hardLimit}{" "}
+                      orders). Plan features lock once you pass it; upgrade to keep them.
+                    </Text>
+                  </Banner>
+                ) : subscription?.isApproaching ? (
+                  <Banner tone="info">
+                    <Text as="p">You're close to your plan's order limit.</Text>
+                  </Banner>
+                ) : null}
+              </BlockStack>
+            </Card>
+
+            <InlineStack align="end">
+              <ButtonGroup variant="segmented">
+                <Button
+                  pressed={billingInterval === "EVERY_30_DAYS"}
+                  onClick={() => setBillingInterval("EVERY_30_DAYS")}
+                >
+                  Monthly
+                </Button>
+                <Button pressed={billingInterval === "ANNUAL"} onClick={() => setBillingInterval("ANNUAL")}>
+                  Annual
+                </Button>
+              </ButtonGroup>
+            </InlineStack>
+
+            <InlineGrid columns={{ xs: 1, md: PLAN_TIERS.length }} gap="400">
+              {PLAN_TIERS.map((tier) => {
+                const plan = PRICING_PLANS[tier];
+                const selection = selectionFor(tier);
+                const change = classifyPlanChange(current, selection);
+                const isCurrent = change === "none";
+                const isScheduled =
+                  scheduledChange?.toTier === tier && scheduledChange.toInterval === selection.interval;
+
+                return (
+                  <Card key={tier}>
+                    <BlockStack gap="300">
+                      <InlineStack align="space-between" blockAlign="center">
+                        <Text as="h3" variant="headingMd">
+                          {plan.name}
+                        </Text>
+                        {isCurrent && <Badge tone="success">Current</Badge>}
+                        {isScheduled && <Badge tone="attention">Scheduled</Badge>}
+                      </InlineStack>
+
+                      <Text as="p" variant="headingLg">
+                        {isPaidPlan(tier)
+                          ? `${formatMoney(planPrice(tier, selection.interval))} / ${INTERVAL_LABELS[selection.interval]}`
+                          : "Free"}
+                      </Text>
+
+                      {plan.trialDays > 0 && !isCurrent && (
+                        <Text as="p" tone="subdued">
+                          {plan.trialDays}-day free trial
+                        </Text>
+                      )}
+
+                      <List>
+                        <List.Item>{orderLimitLabel(tier, selection.interval)}</List.Item>
+                        {plan.features.map((item) => (
+                          <List.Item key={item}>{item}</List.Item>
+                        ))}
+                        <List.Item>{plan.supportLevel} support</List.Item>
+                      </List>
+
+                      <Button
+                        variant={change === "upgrade" ? "primary" : "secondary"}
+                        disabled={isCurrent || isScheduled || !canManageBilling}
+                        loading={pendingTier === tier}
+                        onClick={() => choosePlan(selection)}
+                      >
+                        {isCurrent
+                          ? "Current plan"
+                          : isScheduled
+                            ? "Scheduled"
+                            : change === "upgrade"
+                              ? "Upgrade"
+                              : "Downgrade"}
+                      </Button>
+                    </BlockStack>
+                  </Card>
+                );
+              })}
+            </InlineGrid>
+
+            {isPaidPlan(currentTier) && !scheduledChange && canManageBilling && (
+              <InlineStack align="end">
+                <Button
+                  variant="plain"
+                  tone="critical"
+                  loading={cancelFetcher.state !== "idle"}
+                  onClick={() => setDowngradeTo(selectionFor(FREE_PLAN_TIER))}
+                >
+                  Cancel subscription
+                </Button>
+              </InlineStack>
+            )}
+          </BlockStack>
+        </Layout.Section>
+      </Layout>
+
+      <Modal
+        open={downgradeTo !== null}
+        onClose={() => setDowngradeTo(null)}
+        title={
+          downgradeTo && isPaidPlan(downgradeTo.tier)
+            ? `Downgrade to ${PRICING_PLANS[downgradeTo.tier].name}?`
+            : "Cancel subscription?"
+        }
+        primaryAction={{
+          content: downgradeTo && isPaidPlan(downgradeTo.tier) ? "Downgrade" : "Cancel subscription",
+          destructive: true,
+          onAction: confirmDowngrade,
+        }}
+        secondaryActions={[{ content: "Keep my plan", onAction: () => setDowngradeTo(null) }]}
+      >
+        {downgradeTo && downgrade && (
+          <Modal.Section>
+            <BlockStack gap="300">
+              <Text as="p">
+                You'll move to the {PRICING_PLANS[downgradeTo.tier].name} plan (
+                {downgrade.newOrderLimit.toLocaleString()} orders per {INTERVAL_LABELS[downgradeTo.interval]}){" "}
+                {downgradeDate ? `on ${downgradeDate}, at the end of your billing period` : "right away"}.
+                {isPaidPlan(downgradeTo.tier) && " You'll approve the new charge in Shopify first."}
+              </Text>
+
+              {downgrade.lostFeatures.length > 0 && (
+                <BlockStack gap="100">
+                  <Text as="p">These features will be locked:</Text>
+                  <List>
+                    {downgrade.lostFeatures.map((lost) => (
+                      <List.Item key={lost}>{FEATURE_LABELS[lost]}</List.Item>
+                    ))}
+                  </List>
+                </BlockStack>
+              )}
+
+              {downgrade.exceedsNewLimit && (
+                <Banner tone="warning">
+                  <Text as="p">
+                    You've already processed {orderCount.toLocaleString()} orders this period, more than the new plan
+                    allows. Once you're past its grace allowance, gated features lock until the next billing period.
+                  </Text>
+                </Banner>
+              )}
+
+              <Text as="p" tone="subdued">
+                Your data is kept, and you can upgrade again at any time.
+              </Text>
+            </BlockStack>
+          </Modal.Section>
+        )}
+      </Modal>
+    </Page>
+  );
+}
@@ -0,0 +1,49 @@
+import { json } from "@remix-run/node";
+import { withPermissionAction } from "~/utils/auth.server";
+import { logger } from "~/utils/logger.server";
+import { FREE_PLAN_TIER, PRICING_PLANS } from "~/utils/billing-plans";
+import { requestPlanChange } from "~/utils/billing.server";
+import { recordStaffActivity } from "~/utils/staff.server";
+
+/**
+ * Cancel the paid plan. The shop keeps it until the end of the billing
+ * period (or right away during a trial), then moves to the free plan.
+ * Submit with useFetcher:
+ *
+ *   fetcher.submit({}, { method: "post", action: "/app/billing/cancel" });
+ *
+ * Needs the billing:manage permission.
+ */
+export const action = withPermissionAction("billing:manage", async ({ auth, currentStaff }) => {
+  const { admin, session } = auth;
+
+  try {
+    const result = await requestPlanChange(admin.graphql, session.shop, {
+      tier: FREE_PLAN_TIER,
+      interval: PRICING_PLANS[FREE_PLAN_TIER].interval,
+    });
+    await recordStaffActivity(session.shop, currentStaff, "billing.cancel", {
+      outcome: result.outcome,
+      effectiveAt: result.outcome === "scheduled" ? result.effectiveAt.toISOString() : null,
+    });
+
+    return json({
+      ok: true,
+      scheduled: result.outcome === "scheduled",
+      effectiveAt: result.outcome === "scheduled" ? result.effectiveAt.toISOString() : null,
+    });
+  } catch (error) {
+    logger.error("Billing: Failed to cancel subscription", {
+      shop: session.shop,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return json(
+      {
+        ok: false,
+        error: "Could not cancel subscription",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,20 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { confirmSubscription } from "~/utils/billing.server";
+
+/**
+ * Return URL for Shopify's charge confirmation page
+ * (/app/billing/confirm?charge_id=...). Applies the plan change (or schedules
+ * it, for downgrades) if the merchant approved the charge, then sends them
+ * back into the app.
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { admin, session, redirect } = await authenticate.admin(request);
+
+  const chargeId = new URL(request.url).searchParams.get("charge_id");
+  const result = chargeId
+    ? await confirmSubscription(admin.graphql, session.shop, chargeId)
+    : "not_found";
+
+  return redirect(`/app/billing?billing=${result}`);
+}
@@ -0,0 +1,147 @@
+import { randomUUID } from "crypto";
+import { json } from "@remix-run/node";
+import { useLoaderData, useFetcher } from "@remix-run/react";
+import { Page, Layout, Card, Text, BlockStack, InlineStack, Badge, Button, Banner } from "@shopify/polaris";
+import { apiVersion } from "../shopify.server";
+import { withPermission, withPermissionAction } from "~/utils/auth.server";
+import { isFakeBillingEnabled } from "~/utils/billing-provider.server";
+import { approveFakeCharge, declineFakeCharge, getFakeCharge } from "~/utils/fake-billing.server";
+import { handleWebhookDelivery } from "~/utils/webhook-inbox.server";
+import { formatMoney } from "~/utils/formatters";
+
+// 404 unless fake billing is on and the charge belongs to this shop
+function loadFakeCharge(shop: string, chargeId: string | null) {
+  if (!isFakeBillingEnabled()) {
+    throw new Response("Not found", { status: 404 });
+  }
+  const charge = chargeId ? getFakeCharge(shop, chargeId) : null;
+  if (!charge) {
+    throw new Response("Charge not found", { status: 404 });
+  }
+  return charge;
+}
+
+/**
+ * Stand-in for Shopify's charge approval page when BILLING_PROVIDER=fake.
+ * Approving or declining updates the fake charge, stores the
+ * app_subscriptions/update webhooks Shopify would send in the webhook
+ * inbox, then returns to /app/billing/confirm like Shopify does.
+ * Needs the billing:manage permission, like changing plan.
+ */
+export const loader = withPermission("billing:manage", async ({ request, auth }) => {
+  const { session } = auth;
+  const charge = loadFakeCharge(session.shop, new URL(request.url).searchParams.get("charge_id"));
+
+  return json({
+    charge: {
+      name: charge.name,
+      status: charge.status,
+      price: charge.price,
+      interval: charge.interval,
+      trialDays: charge.trialDays,
+      test: charge.test,
+      replacementBehavior: charge.replacementBehavior,
+    },
+  });
+});
+
+export const action = withPermissionAction("billing:manage", async ({ request, auth }) => {
+  const { session, redirect } = auth;
+  const chargeId = new URL(request.url).searchParams.get("charge_id");
+  const charge = loadFakeCharge(session.shop, chargeId);
+
+  const formData = await request.formData();
+  const payloads =
+    formData.get("intent") === "approve"
+      ? approveFakeCharge(session.shop, charge.id)
+      : declineFakeCharge(session.shop, charge.id);
+
+  for (const payload of payloads) {
+    await handleWebhookDelivery({
+      shop: session.shop,
+      topic: "APP_SUBSCRIPTIONS_UPDATE",
+      webhookId: `fake-${randomUUID()}`,
+      apiVersion,
+      payload,
+    });
+  }
+
+  return redirect(`/app/billing/confirm?charge_id=${chargeId}`);
+});
+
+export default function FakeConfirm() {
+  const { charge } = useLoaderData<typeof loader>();
+
+  // IMPORTANT: useFetcher() (not useSubmit) so the session token is sent
+  const fetcher = useFetcher();
+  const submitting = fetcher.state !== "idle" ? fetcher.formData?.get("intent") : null;
+
+  const decide = (intent: "approve" | "decline") => {
+    fetcher.submit({ intent }, { method: "post" });
+  };
+
+  return (
+    <Page title="Approve charge" backAction={{ content: "Plans & billing", url: "/app/billing" }}>
+      <Layout>
+        <Layout.Section>
+          <BlockStack gap="400">
+            <Banner tone="info">
+              <Text as="p">
+                Fake billing is on (BILLING_PROVIDER=fake). This page stands in for Shopify's approval page; no real
+                charge is created.
+              </Text>
+            </Banner>
+
+            <Card>
+              <BlockStack gap="300">
+                <InlineStack align="space-between" blockAlign="center">
+                  <Text as="h2" variant="headingMd">
+                    {charge.name}
+                  </Text>
+                  <InlineStack gap="200">
+                    {charge.test && <Badge>Test</Badge>}
+                    <Badge tone={charge.status === "PENDING" ? "attention" : "info"}>{charge.status}</Badge>
+                  </InlineStack>
+                </InlineStack>
+
+                <Text as="p" variant="headingLg">
+                  {formatMoney(charge.price)} / {charge.interval === "ANNUAL" ? "year" : "30 days"}
+                </Text>
+
+                {charge.trialDays > 0 && (
+                  <Text as="p" tone="subdued">
+                    {charge.trialDays}-day free trial
+                  </Text>
+                )}
+
+                {charge.replacementBehavior === "APPLY_ON_NEXT_BILLING_CYCLE" && (
+                  <Text as="p" tone="subdued">
+                    Replaces the current charge at the end of its billing period.
+                  </Text>
+                )}
+
+                <InlineStack gap="200" align="end">
+                  <Button
+                    disabled={charge.status !== "PENDING"}
+                    loading={submitting === "decline"}
+                    onClick={() => decide("decline")}
+                  >
+                    Decline
+                  </Button>
+                  <Button
+                    variant="primary"
+                    disabled={charge.status !== "PENDING"}
+                    loading={submitting === "approve"}
+                    onClick={() => decide("approve")}
+                  >
+                    Approve
+                  </Button>
+                </InlineStack>
+              </BlockStack>
+            </Card>
+          </BlockStack>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
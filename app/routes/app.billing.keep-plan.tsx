@@ -0,0 +1,37 @@
+import { json } from "@remix-run/node";
+import { withPermissionAction } from "~/utils/auth.server";
+import { logger } from "~/utils/logger.server";
+import { revokeScheduledPlanChange } from "~/utils/billing.server";
+import { recordStaffActivity } from "~/utils/staff.server";
+
+/**
+ * Keep the current plan by revoking a scheduled downgrade. Submit with useFetcher:
+ *
+ *   fetcher.submit({}, { method: "post", action: "/app/billing/keep-plan" });
+ *
+ * Needs the billing:manage permission.
+ */
+export const action = withPermissionAction("billing:manage", async ({ auth, currentStaff }) => {
+  const { admin, session } = auth;
+
+  try {
+    const revoked = await revokeScheduledPlanChange(admin.graphql, session.shop);
+    if (revoked) {
+      await recordStaffActivity(session.shop, currentStaff, "billing.keep_plan");
+    }
+    return json({ ok: true, revoked });
+  } catch (error) {
+    logger.error("Billing: Failed to revoke plan change", {
+      shop: session.shop,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return json(
+      {
+        ok: false,
+        error: "Could not keep your current plan",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,69 @@
+import { json } from "@remix-run/node";
+import { withPermissionAction } from "~/utils/auth.server";
+import { logger } from "~/utils/logger.server";
+import { PRICING_PLANS, isBillingInterval, isPlanTier } from "~/utils/billing-plans";
+import { requestPlanChange } from "~/utils/billing.server";
+import { recordStaffActivity } from "~/utils/staff.server";
+
+/**
+ * Change plan or billing interval. Submit with useFetcher:
+ *
+ *   fetcher.submit({ plan: "growth", interval: "ANNUAL" }, { method: "post", action: "/app/billing/subscribe" });
+ *
+ * Upgrades (and downgrades to another paid plan) redirect the top frame to
+ * Shopify's charge confirmation page, which returns to /app/billing/confirm.
+ * With BILLING_PROVIDER=fake the confirmation page is an app path and opens
+ * inside the app.
+ * Downgrades to the free plan return { ok, scheduled, effectiveAt }.
+ * Needs the billing:manage permission.
+ */
+export const action = withPermissionAction("billing:manage", async ({ request, auth, currentStaff }) => {
+  const { admin, session, redirect } = auth;
+
+  const formData = await request.formData();
+  const plan = formData.get("plan");
+
+  if (!isPlanTier(plan)) {
+    return json({ ok: false, error: "Choose a plan" }, { status: 400 });
+  }
+
+  const interval = formData.get("interval") ?? PRICING_PLANS[plan].interval;
+  if (!isBillingInterval(interval)) {
+    return json({ ok: false, error: "Choose a billing interval" }, { status: 400 });
+  }
+
+  try {
+    const result = await requestPlanChange(admin.graphql, session.shop, { tier: plan, interval });
+    await recordStaffActivity(session.shop, currentStaff, "billing.plan_change", {
+      tier: plan,
+      interval,
+      kind: result.change.kind,
+      outcome: result.outcome,
+    });
+
+    if (result.outcome === "confirm") {
+      return redirect(result.confirmationUrl, { target: result.confirmationUrl.startsWith("/") ? "_self" : "_top" });
+    }
+
+    return json({
+      ok: true,
+      scheduled: result.outcome === "scheduled",
+      effectiveAt: result.outcome === "scheduled" ? result.effectiveAt.toISOString() : null,
+    });
+  } catch (error) {
+    logger.error("Billing: Failed to change plan", {
+      shop: session.shop,
+      plan,
+      interval,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return json(
+      {
+        ok: false,
+        error: "Could not change plan",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,183 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useLoaderData, useFetcher } from "@remix-run/react";
+import { Page, Layout, Card, Text, BlockStack, InlineStack, Badge, Banner, Select } from "@shopify/polaris";
+import type { StaffMember } from "~/types/staff";
+import { authenticate } from "../shopify.server";
+import { withPermissionAction } from "~/utils/auth.server";
+import { env } from "~/utils/env.server";
+import { getCurrentStaff } from "~/utils/staff.server";
+import { assignStaffRole, listShopStaff, resolveStaffRole } from "~/utils/staff-roles.server";
+import { ASSIGNABLE_ROLES, ROLE_LABELS, hasPermission, isStaffRole } from "~/utils/staff-permissions";
+
+/**
+ * Staff & roles: the account owner assigns each staff member a role.
+ * Staff are listed once they've opened the app with online tokens.
+ * Other staff see a notice instead of the list.
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const auth = await authenticate.admin(request);
+  const role = await resolveStaffRole(auth.session.shop, getCurrentStaff(auth));
+  const canManageStaff = hasPermission(role, "staff:manage");
+
+  return json({
+    staff: canManageStaff ? await listShopStaff(auth.session.shop) : [],
+    canManageStaff,
+    roleLabel: ROLE_LABELS[role],
+    onlineTokens: env.useOnlineTokens,
+  });
+}
+
+/**
+ * Assign a role. Submit with useFetcher:
+ *
+ *   fetcher.submit({ staffId, role: "viewer" }, { method: "post" });
+ */
+export const action = withPermissionAction("staff:manage", async ({ request, auth, currentStaff }) => {
+  // Without online tokens the account owner can't be recognised, so nobody may assign roles
+  if (!env.useOnlineTokens) {
+    return json(
+      { ok: false, error: "Roles need online tokens (SHOPIFY_ONLINE_TOKENS=true)" },
+      { status: 403 }
+    );
+  }
+
+  const formData = await request.formData();
+  const staffId = String(formData.get("staffId") ?? "");
+  const role = formData.get("role");
+
+  if (!staffId || !isStaffRole(role) || !currentStaff) {
+    return json({ ok: false, error: "Choose a staff member and a role" }, { status: 400 });
+  }
+
+  try {
+    await assignStaffRole(auth.session.shop, staffId, role, currentStaff);
+    return json({ ok: true });
+  } catch (error) {
+    return json(
+      { ok: false, error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+});
+
+type FetcherData = { ok: boolean; error?: string; message?: string };
+
+const ROLE_OPTIONS = ASSIGNABLE_ROLES.map((role) => ({ label: ROLE_LABELS[role], value: role }));
+
+function StaffRow({ member }: { member: StaffMember }) {
+  // IMPORTANT: useFetcher() (not useSubmit) so the session token is sent
+  const fetcher = useFetcher<FetcherData>();
+  const pendingRole = fetcher.formData?.get("role");
+  const role = isStaffRole(pendingRole) ? pendingRole : member.role;
+
+  return (
+    <BlockStack gap="200">
+      <InlineStack align="space-between" blockAlign="center" wrap={false}>
+        <BlockStack gap="100">
+          <InlineStack gap="200" blockAlign="center">
+            <Text as="p" fontWeight="semibold">
+              {member.name}
+            </Text>
+            {member.accountOwner && <Badge tone="success">Owner</Badge>}
+            {member.collaborator && <Badge>Collaborator</Badge>}
+            {!member.accountOwner && !member.assigned && <Badge tone="info">Default</Badge>}
+          </InlineStack>
+          {member.email && (
+            <Text as="p" tone="subdued">
+              {member.email}
+            </Text>
+          )}
+        </BlockStack>
+
+        {member.accountOwner ? (
+          <Text as="p">{ROLE_LABELS.owner}</Text>
+        ) : (
+          <Select
+            label="Role"
+            labelHidden
+            options={ROLE_OPTIONS}
+            value={role}
+            disabled={fetcher.state !== "idle"}
+            onChange={(value) => fetcher.submit({ staffId: member.staffId, role: value }, { method: "post" })}
+          />
+        )}
+      </InlineStack>
+
+      {fetcher.data && !fetcher.data.ok && (
+        <Text as="p" tone="critical">
+          {fetcher.data.message || fetcher.data.error}
+        </Text>
+      )}
+    </BlockStack>
+  );
+}
+
+export default function StaffSettings() {
+  const { staff, canManageStaff, roleLabel, onlineTokens } = useLoaderData<typeof loader>();
+
+  return (
+    <Page title="Staff & roles" backAction={{ content: "Dashboard", url: "/app" }}>
+      <Layout>
+        <Layout.Section>
+          <BlockStack gap="400">
+            {!canManageStaff && (
+              <Banner tone="info">
+                <Text as="p">
+                  Your role ({roleLabel}) can't manage staff. Only the store owner can assign roles.
+                </Text>
+              </Banner>
+            )}
+
+            {!onlineTokens && (
+              <Banner tone="warning">
+                <Text as="p">
+                  Online tokens are off (SHOPIFY_ONLINE_TOKENS), so the app can't tell staff members apart and
+                  everyone is a viewer. Turn them on to use roles and to change the plan.
+                </Text>
+              </Banner>
+            )}
+
+            {canManageStaff && (
+              <Card>
+                <BlockStack gap="400">
+                  <Text as="h2" variant="headingMd">
+                    Staff
+                  </Text>
+                  {staff.length === 0 ? (
+                    <Text as="p" tone="subdued">
+                      Staff members appear here after they open the app.
+                    </Text>
+                  ) : (
+                    staff.map((member) => <StaffRow key={member.staffId} member={member} />)
+                  )}
+                </BlockStack>
+              </Card>
+            )}
+
+            <Card>
+              <BlockStack gap="200">
+                <Text as="h2" variant="headingMd">
+                  Roles
+                </Text>
+                <Text as="p">
+                  <strong>{ROLE_LABELS.admin}</strong>: change the plan and settings.
+                </Text>
+                <Text as="p">
+                  <strong>{ROLE_LABELS.editor}</strong>: change settings and view billing.
+                </Text>
+                <Text as="p">
+                  <strong>{ROLE_LABELS.viewer}</strong>: view only.
+                </Text>
+                <Text as="p" tone="subdued">
+                  Only the account owner can assign roles. Staff without an assigned role get the default for their
+                  account type.
+                </Text>
+              </BlockStack>
+            </Card>
+          </BlockStack>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -1,18 +1,28 @@
-import { Outlet, useLoaderData, useRouteError, Links, Meta, Scripts } from "@remix-run/react";
+import { Link, Outlet, useLoaderData, useRouteError, Links, Meta, Scripts } from "@remix-run/react";
 import type { LoaderFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
 import { AppProvider } from "@shopify/shopify-app-remix/react";
+import { NavMenu } from "@shopify/app-bridge-react";
 import "@shopify/polaris/build/esm/styles.css";
 import polarisStyles from "@shopify/polaris/build/esm/styles.css?url";
 import { authenticate } from "../shopify.server";
+import { ScopeBanner } from "~/components/ScopeBanner";
+import { SessionStatusProvider } from "~/components/SessionStatusProvider";
+import { getScopeStatus } from "~/utils/scopes.server";
+import { refreshShopPlanIfStale } from "~/utils/shop-plan.server";
 
 export const links = () => [{ rel: "stylesheet", href: polarisStyles }];
 
 export async function loader({ request }: LoaderFunctionArgs) {
-  await authenticate.admin(request);
+  const { session, admin } = await authenticate.admin(request);
+
+  // Daily development / Plus store re-check; one indexed read while fresh
+  await refreshShopPlanIfStale(admin.graphql, session.shop);
 
   return json({
     apiKey: process.env.SHOPIFY_API_KEY || "",
+    // Read by useScopeStatus() in ScopeBanner and pages
+    scopeStatus: getScopeStatus(session.scope),
   });
 }
 
@@ -21,7 +31,19 @@ export default function AppLayout() {
 
   return (
     <AppProvider isEmbeddedApp apiKey={apiKey}>
-      <Outlet />
+      <NavMenu>
+        <Link to="/app" rel="home">
+          Home
+        </Link>
+        <Link to="/app/billing">Plans & billing</Link>
+        <Link to="/app/settings/staff">Staff & roles</Link>
+      </NavMenu>
+      {/* Silent session refresh, plus Polaris banners/modals if it fails */}
+      <SessionStatusProvider>
+        {/* Missing scopes: explain what's off and start re-consent */}
+        <ScopeBanner />
+        <Outlet />
+      </SessionStatusProvider>
     </AppProvider>
   );
 }
@@ -0,0 +1,138 @@
+import { useState } from "react";
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { Form, useLoaderData, useNavigate } from "@remix-run/react";
+import {
+  Badge,
+  BlockStack,
+  Box,
+  Button,
+  Card,
+  DataTable,
+  FormLayout,
+  InlineStack,
+  Link,
+  Page,
+  Pagination,
+  Select,
+  Text,
+  TextField,
+} from "@shopify/polaris";
+import { PRICING_PLANS } from "~/utils/billing-plans";
+import { formatDateTime } from "~/utils/formatters";
+import { recordOperatorAction, requireOperator } from "~/utils/superadmin-auth.server";
+import { listShops } from "~/utils/superadmin-shops.server";
+
+const STATUS_OPTIONS = [
+  { label: "All shops", value: "" },
+  { label: "Installed", value: "installed" },
+  { label: "Uninstalled", value: "uninstalled" },
+];
+
+/**
+ * Installed shops with lifecycle and plan status, filterable by status
+ * and domain
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const operator = await requireOperator(request);
+  const url = new URL(request.url);
+
+  const statusParam = url.searchParams.get("status");
+  const status = statusParam === "installed" || statusParam === "uninstalled" ? statusParam : undefined;
+  const search = url.searchParams.get("q")?.trim() || undefined;
+  const page = Math.max(1, Number(url.searchParams.get("page")) || 1);
+
+  await recordOperatorAction(request, operator, "shops.list", {
+    details: { status: status ?? null, search: search ?? null, page },
+  });
+
+  return json({ ...(await listShops({ status, search, page })), status: status ?? "", search: search ?? "" });
+}
+
+export default function SuperadminShops() {
+  const data = useLoaderData<typeof loader>();
+  const navigate = useNavigate();
+
+  const [search, setSearch] = useState(data.search);
+  const [status, setStatus] = useState(data.status);
+
+  const goToPage = (page: number) => {
+    const params = new URLSearchParams();
+    if (data.status) params.set("status", data.status);
+    if (data.search) params.set("q", data.search);
+    params.set("page", String(page));
+    navigate(`/superadmin?${params}`);
+  };
+
+  const rows = data.shops.map((shop) => [
+    <Link key={shop.shop} url={`/superadmin/shops/${encodeURIComponent(shop.shop)}`}>
+      {shop.shop}
+    </Link>,
+    <InlineStack key="status" gap="100">
+      <Badge tone={shop.status === "installed" ? "success" : undefined}>{shop.status}</Badge>
+      {shop.reinstalledCount > 0 && <Badge tone="info">{`Reinstalled ×${shop.reinstalledCount}`}</Badge>}
+    </InlineStack>,
+    <InlineStack key="plan" gap="100">
+      <Text as="span">{PRICING_PLANS[shop.planTier].name}</Text>
+      {shop.planStatus && shop.planStatus !== "active" && <Badge tone="attention">{shop.planStatus}</Badge>}
+      {shop.testCharge && <Badge>Test</Badge>}
+    </InlineStack>,
+    shop.isDevelopmentStore ? "Development" : (shop.shopifyPlan ?? "—"),
+    formatDateTime(shop.installedAt),
+    formatDateTime(shop.uninstalledAt),
+  ]);
+
+  return (
+    <Page
+      title="Shops"
+      subtitle={`${data.statusCounts.installed ?? 0} installed, ${data.statusCounts.uninstalled ?? 0} uninstalled`}
+    >
+      <BlockStack gap="400">
+        <Card>
+          <Form method="get">
+            <FormLayout>
+              <FormLayout.Group condensed>
+                <TextField
+                  label="Shop domain"
+                  name="q"
+                  value={search}
+                  onChange={setSearch}
+                  autoComplete="off"
+                  placeholder="mystore.myshopify.com"
+                />
+                <Select label="Status" name="status" options={STATUS_OPTIONS} value={status} onChange={setStatus} />
+              </FormLayout.Group>
+              <Button submit>Search</Button>
+            </FormLayout>
+          </Form>
+        </Card>
+
+        <Card padding="0">
+          {rows.length === 0 ? (
+            <Box padding="800">
+              <Text as="p" alignment="center" tone="subdued">
+                No shops match.
+              </Text>
+            </Box>
+          ) : (
+            <DataTable
+              columnContentTypes={["text", "text", "text", "text", "text", "text"]}
+              headings={["Shop", "Status", "App plan", "Shopify plan", "Installed", "Uninstalled"]}
+              rows={rows}
+            />
+          )}
+        </Card>
+
+        <InlineStack align="center">
+          <Pagination
+            hasPrevious={data.page > 1}
+            onPrevious={() => goToPage(data.page - 1)}
+            hasNext={data.hasNextPage}
+            onNext={() => goToPage(data.page + 1)}
+            label={`Page ${data.page} of ${data.pageCount}`}
+          />
+        </InlineStack>
+      </BlockStack>
+    </Page>
+  );
+}
@@ -0,0 +1,70 @@
+import { useState } from "react";
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { Form, useLoaderData } from "@remix-run/react";
+import { BlockStack, Box, Button, Card, DataTable, FormLayout, Page, Text, TextField } from "@shopify/polaris";
+import { formatDateTime } from "~/utils/formatters";
+import { listOperatorAudit, recordOperatorAction, requireOperator } from "~/utils/superadmin-auth.server";
+
+/**
+ * The operator audit log, newest first, optionally for one shop
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const operator = await requireOperator(request);
+  const shop = new URL(request.url).searchParams.get("shop")?.trim() || undefined;
+
+  await recordOperatorAction(request, operator, "audit.view", { shop });
+
+  const entries = await listOperatorAudit({ shop, limit: 200 });
+  return json({ entries, shop: shop ?? "" });
+}
+
+export default function SuperadminAudit() {
+  const { entries, shop } = useLoaderData<typeof loader>();
+  const [shopFilter, setShopFilter] = useState(shop);
+
+  return (
+    <Page title="Audit log" subtitle="Everything operators have done in this console">
+      <BlockStack gap="400">
+        <Card>
+          <Form method="get">
+            <FormLayout>
+              <TextField
+                label="Shop domain"
+                name="shop"
+                value={shopFilter}
+                onChange={setShopFilter}
+                autoComplete="off"
+                placeholder="All shops"
+              />
+              <Button submit>Filter</Button>
+            </FormLayout>
+          </Form>
+        </Card>
+
+        <Card padding="0">
+          {entries.length === 0 ? (
+            <Box padding="800">
+              <Text as="p" alignment="center" tone="subdued">
+                Nothing logged yet.
+              </Text>
+            </Box>
+          ) : (
+            <DataTable
+              columnContentTypes={["text", "text", "text", "text", "text", "text"]}
+              headings={["When", "Operator", "Action", "Shop", "Details", "IP"]}
+              rows={entries.map((entry) => [
+                formatDateTime(entry.createdAt),
+                entry.operator,
+                entry.action,
+                entry.shop ?? "",
+                entry.details ? JSON.stringify(entry.details) : "",
+                entry.ipAddress ?? "",
+              ])}
+            />
+          )}
+        </Card>
+      </BlockStack>
+    </Page>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json, redirect } from "@remix-run/node";
+import { Form, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { Banner, BlockStack, Button, Card, FormLayout, Page, Text, TextField } from "@shopify/polaris";
+import {
+  checkOperatorCredential,
+  getOperator,
+  getRequestIp,
+  isSuperadminEnabled,
+  isTotpLoginEnabled,
+  recordOperatorAction,
+  signInOperator,
+} from "~/utils/superadmin-auth.server";
+import { clearLoginFailures, getLoginLockout, recordLoginFailure } from "~/utils/superadmin-throttle.server";
+
+// Only redirect back into the console, never to another site
+function safeRedirectTo(value: FormDataEntryValue | string | null): string {
+  const target = typeof value === "string" ? value : "";
+  return target.startsWith("/superadmin") && !target.startsWith("//") ? target : "/superadmin";
+}
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  if (!isSuperadminEnabled()) {
+    throw new Response("Not found", { status: 404 });
+  }
+
+  const redirectTo = safeRedirectTo(new URL(request.url).searchParams.get("redirectTo"));
+  if (await getOperator(request)) {
+    return redirect(redirectTo);
+  }
+
+  return json({ redirectTo, totpEnabled: isTotpLoginEnabled() });
+}
+
+/**
+ * Sign in with ADMIN_SECRET, plus an authenticator code when TOTP is on.
+ * Failed attempts are audit logged too, and repeated failures lock
+ * sign-in for every instance (superadmin-throttle.server.ts).
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (!isSuperadminEnabled()) {
+    throw new Response("Not found", { status: 404 });
+  }
+
+  const ip = getRequestIp(request);
+  if (await getLoginLockout(ip)) {
+    return json({ error: "Too many failed attempts. Wait 15 minutes and try again." }, { status: 429 });
+  }
+
+  const formData = await request.formData();
+  const name = String(formData.get("operator") ?? "").trim();
+  const credential = String(formData.get("credential") ?? "").trim();
+  const code = String(formData.get("code") ?? "").replace(/\s/g, "");
+
+  if (!name) {
+    return json({ error: "Enter your name so your actions can be audited." }, { status: 400 });
+  }
+
+  const method = await checkOperatorCredential(credential, code);
+  if (!method) {
+    await recordLoginFailure(ip);
+    await recordOperatorAction(request, { name }, "operator.login_failed");
+    return json(
+      { error: isTotpLoginEnabled() ? "That password or code isn't valid." : "That password isn't valid." },
+      { status: 401 }
+    );
+  }
+
+  await clearLoginFailures(ip);
+  const cookie = await signInOperator(request, name, method);
+  return redirect(safeRedirectTo(formData.get("redirectTo")), { headers: { "Set-Cookie": cookie } });
+};
+
+export default function SuperadminLogin() {
+  const { redirectTo, totpEnabled } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+
+  const [operator, setOperator] = useState("");
+  const [credential, setCredential] = useState("");
+  const [code, setCode] = useState("");
+
+  return (
+    <Page narrowWidth title="Operator sign in">
+      <Card>
+        <Form method="post">
+          <input type="hidden" name="redirectTo" value={redirectTo} />
+          <BlockStack gap="400">
+            {actionData?.error && (
+              <Banner tone="critical">
+                <Text as="p">{actionData.error}</Text>
+              </Banner>
+            )}
+            <FormLayout>
+              <TextField
+                label="Your name"
+                name="operator"
+                value={operator}
+                onChange={setOperator}
+                autoComplete="name"
+                helpText="Recorded with everything you do in the console"
+              />
+              <TextField
+                label="Admin password"
+                name="credential"
+                type="password"
+                value={credential}
+                onChange={setCredential}
+                autoComplete="current-password"
+              />
+              {totpEnabled && (
+                <TextField
+                  label="Authenticator code"
+                  name="code"
+                  value={code}
+                  onChange={setCode}
+                  autoComplete="one-time-code"
+                  inputMode="numeric"
+                  helpText="Each code can only be used once"
+                />
+              )}
+            </FormLayout>
+            <Button submit variant="primary" loading={navigation.state === "submitting"}>
+              Sign in
+            </Button>
+          </BlockStack>
+        </Form>
+      </Card>
+    </Page>
+  );
+}
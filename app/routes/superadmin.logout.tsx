@@ -0,0 +1,18 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { redirect } from "@remix-run/node";
+import { getOperator, signOutOperator } from "~/utils/superadmin-auth.server";
+
+/**
+ * Sign the operator out (POST only)
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const operator = await getOperator(request);
+  if (!operator) {
+    return redirect("/superadmin/login");
+  }
+
+  const cookie = await signOutOperator(request, operator);
+  return redirect("/superadmin/login", { headers: { "Set-Cookie": cookie } });
+};
+
+export const loader = () => redirect("/superadmin");
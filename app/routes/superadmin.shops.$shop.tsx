@@ -0,0 +1,274 @@
+import type { ReactNode } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json, redirect } from "@remix-run/node";
+import { useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
+import {
+  Badge,
+  BlockStack,
+  Box,
+  Card,
+  DataTable,
+  DescriptionList,
+  InlineGrid,
+  Layout,
+  Page,
+  Text,
+} from "@shopify/polaris";
+import { PRICING_PLANS } from "~/utils/billing-plans";
+import { formatDateTime, formatMoney } from "~/utils/formatters";
+import {
+  listOperatorAudit,
+  recordOperatorAction,
+  requireOperator,
+  setViewAsShop,
+} from "~/utils/superadmin-auth.server";
+import { getShopOverview } from "~/utils/superadmin-shops.server";
+import { getShopLifecycleState } from "~/utils/shop-lifecycle.server";
+
+/**
+ * Everything support needs about one shop: lifecycle, auth, plan and
+ * usage, billing history, webhooks, jobs and staff activity
+ */
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const operator = await requireOperator(request);
+  const shop = params.shop!;
+
+  await recordOperatorAction(request, operator, "shop.view", { shop });
+
+  const overview = await getShopOverview(shop);
+  if (!overview) {
+    // Redacted shops only leave a hashed tombstone behind
+    const lifecycle = await getShopLifecycleState(shop);
+    throw new Response(lifecycle === "redacted" ? "This shop's data was redacted" : "Shop not found", {
+      status: 404,
+    });
+  }
+
+  return json({ overview, audit: await listOperatorAudit({ shop, limit: 20 }) });
+}
+
+/**
+ * Start read-only "view as shop" mode
+ */
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const operator = await requireOperator(request);
+  const shop = params.shop!;
+
+  const cookie = await setViewAsShop(request, operator, shop);
+  return redirect(`/superadmin/shops/${encodeURIComponent(shop)}/view`, { headers: { "Set-Cookie": cookie } });
+};
+
+function TableCard({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <Card padding="0">
+      <Box padding="400">
+        <Text as="h2" variant="headingMd">
+          {title}
+        </Text>
+      </Box>
+      {children}
+    </Card>
+  );
+}
+
+function yesNo(value: boolean) {
+  return value ? "Yes" : "No";
+}
+
+export default function SuperadminShop() {
+  const { overview, audit } = useLoaderData<typeof loader>();
+  const { shop, lifecycle, subscription, usage, auth, jobs } = overview;
+  const submit = useSubmit();
+  const navigation = useNavigation();
+
+  return (
+    <Page
+      title={shop.shop}
+      titleMetadata={<Badge tone={lifecycle === "installed" ? "success" : undefined}>{lifecycle}</Badge>}
+      backAction={{ content: "Shops", url: "/superadmin" }}
+      primaryAction={{
+        content: "View as shop",
+        helpText: "Read-only",
+        loading: navigation.state === "submitting",
+        onAction: () => submit({}, { method: "post" }),
+      }}
+    >
+      <Layout>
+        <Layout.Section>
+          <InlineGrid columns={{ xs: 1, md: 3 }} gap="400">
+            <Card>
+              <BlockStack gap="200">
+                <Text as="h2" variant="headingMd">
+                  Lifecycle
+                </Text>
+                <DescriptionList
+                  items={[
+                    { term: "Installed", description: formatDateTime(shop.installedAt) },
+                    { term: "Uninstalled", description: formatDateTime(shop.uninstalledAt) },
+                    { term: "Reinstalled", description: `${shop.reinstalledCount} times` },
+                    { term: "Shopify plan", description: shop.shopifyPlan ?? "—" },
+                    { term: "Development store", description: yesNo(shop.isDevelopmentStore) },
+                    { term: "Shopify Plus", description: yesNo(shop.isShopifyPlus) },
+                  ]}
+                />
+              </BlockStack>
+            </Card>
+
+            <Card>
+              <BlockStack gap="200">
+                <Text as="h2" variant="headingMd">
+                  App plan
+                </Text>
+                {subscription ? (
+                  <DescriptionList
+                    items={[
+                      {
+                        term: "Plan",
+                        description: `${PRICING_PLANS[subscription.planTier].name} (${subscription.planStatus})`,
+                      },
+                      {
+                        term: "Price",
+                        description: `${formatMoney(Number(subscription.price), subscription.currencyCode)} / ${
+                          subscription.interval === "ANNUAL" ? "year" : "30 days"
+                        }${subscription.test ? " (test)" : ""}`,
+                      },
+                      { term: "Charge", description: subscription.shopifySubscriptionId ?? "—" },
+                      { term: "Trial ends", description: formatDateTime(subscription.trialEndsAt) },
+                      {
+                        term: "Billing period",
+                        description: `${formatDateTime(subscription.billingPeriodStart)} – ${formatDateTime(subscription.billingPeriodEnd)}`,
+                      },
+                      {
+                        term: "Orders",
+                        description: usage
+                          ? `${usage.orderCount} / ${usage.orderLimit}${usage.isLimitReached ? " (limit reached)" : ""}`
+                          : "—",
+                      },
+                    ]}
+                  />
+                ) : (
+                  <Text as="p" tone="subdued">
+                    No subscription yet (free plan).
+                  </Text>
+                )}
+              </BlockStack>
+            </Card>
+
+            <Card>
+              <BlockStack gap="200">
+                <Text as="h2" variant="headingMd">
+                  Data & access
+                </Text>
+                <DescriptionList
+                  items={[
+                    { term: "Offline token", description: yesNo(auth.hasOfflineToken) },
+                    { term: "Scopes", description: auth.scopes ?? "—" },
+                    { term: "Online sessions", description: String(auth.onlineSessions) },
+                    { term: "Assigned staff roles", description: String(overview.staffRoleCount) },
+                    { term: "Products", description: String(overview.productCount) },
+                    { term: "Orders", description: String(overview.orderCount) },
+                    {
+                      term: "Jobs",
+                      description:
+                        Object.entries(jobs.counts)
+                          .map(([status, count]) => `${count} ${status}`)
+                          .join(", ") || "None",
+                    },
+                  ]}
+                />
+              </BlockStack>
+            </Card>
+          </InlineGrid>
+        </Layout.Section>
+
+        <Layout.Section>
+          <TableCard title="Billing history">
+            <DataTable
+              columnContentTypes={["text", "text", "text", "text", "text"]}
+              headings={["When", "Change", "Status", "Source", "Note"]}
+              rows={overview.statusChanges.map((change) => [
+                formatDateTime(change.occurredAt),
+                `${change.fromTier} → ${change.toTier}`,
+                `${change.fromStatus} → ${change.toStatus}`,
+                change.source,
+                change.note ?? "",
+              ])}
+            />
+          </TableCard>
+        </Layout.Section>
+
+        <Layout.Section>
+          <TableCard title="Plan changes">
+            <DataTable
+              columnContentTypes={["text", "text", "text", "text", "text"]}
+              headings={["Requested", "Change", "Kind", "Status", "Effective"]}
+              rows={overview.planChanges.map((change) => [
+                formatDateTime(change.createdAt),
+                `${change.fromTier}/${change.fromInterval} → ${change.toTier}/${change.toInterval}`,
+                change.kind,
+                change.status,
+                formatDateTime(change.appliedAt ?? change.effectiveAt),
+              ])}
+            />
+          </TableCard>
+        </Layout.Section>
+
+        <Layout.Section>
+          <TableCard title="Recent webhooks">
+            <DataTable
+              columnContentTypes={["text", "text", "text", "numeric", "text"]}
+              headings={["Received", "Topic", "Status", "Attempts", "Error"]}
+              rows={overview.webhookEvents.map((event) => [
+                formatDateTime(event.receivedAt),
+                event.topic,
+                event.status,
+                event.attempts,
+                event.error ?? "",
+              ])}
+            />
+          </TableCard>
+        </Layout.Section>
+
+        <Layout.Section>
+          <TableCard title="Recent jobs">
+            <DataTable
+              columnContentTypes={["text", "text", "text", "numeric", "text"]}
+              headings={["Created", "Type", "Status", "Attempts", "Last error"]}
+              rows={jobs.recent.map((job) => [
+                formatDateTime(job.createdAt),
+                job.type,
+                job.status,
+                job.attempts,
+                job.lastError ?? "",
+              ])}
+            />
+          </TableCard>
+        </Layout.Section>
+
+        <Layout.Section>
+          <TableCard title="Staff activity">
+            <DataTable
+              columnContentTypes={["text", "text", "text"]}
+              headings={["When", "Staff", "Action"]}
+              rows={overview.staffActivity.map((entry) => [
+                formatDateTime(entry.createdAt),
+                entry.staffName ?? entry.staffId ?? "System",
+                entry.action,
+              ])}
+            />
+          </TableCard>
+        </Layout.Section>
+
+        <Layout.Section>
+          <TableCard title="Operator audit log">
+            <DataTable
+              columnContentTypes={["text", "text", "text"]}
+              headings={["When", "Operator", "Action"]}
+              rows={audit.map((entry) => [formatDateTime(entry.createdAt), entry.operator, entry.action])}
+            />
+          </TableCard>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,218 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json, redirect } from "@remix-run/node";
+import { useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
+import {
+  Badge,
+  Banner,
+  BlockStack,
+  Card,
+  InlineGrid,
+  InlineStack,
+  Layout,
+  List,
+  Page,
+  ProgressBar,
+  Text,
+} from "@shopify/polaris";
+import { FREE_PLAN_TIER, PLAN_TIERS, PRICING_PLANS, isPaidPlan, isPlanTier, orderLimitLabel } from "~/utils/billing-plans";
+import { formatDateTime, formatMoney } from "~/utils/formatters";
+import { ROLE_LABELS } from "~/utils/staff-permissions";
+import { listShopStaff } from "~/utils/staff-roles.server";
+import { recordOperatorAction, requireOperator, setViewAsShop } from "~/utils/superadmin-auth.server";
+import { getShopOverview } from "~/utils/superadmin-shops.server";
+
+/**
+ * Read-only "view as shop": the shop's plan, usage and staff as the
+ * merchant sees them in the app. Only reachable after starting view-as
+ * mode on the shop's detail page; every page load is audit logged and
+ * nothing here can submit.
+ */
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const operator = await requireOperator(request);
+  const shop = params.shop!;
+  const detailUrl = `/superadmin/shops/${encodeURIComponent(shop)}`;
+
+  if (operator.viewAsShop !== shop) {
+    return redirect(detailUrl);
+  }
+
+  await recordOperatorAction(request, operator, "shop.view_as", { shop });
+
+  const [overview, staff] = await Promise.all([getShopOverview(shop), listShopStaff(shop)]);
+  if (!overview) {
+    throw new Response("Shop not found", { status: 404 });
+  }
+
+  const scheduledChange = overview.planChanges.find((change) => change.status === "scheduled");
+
+  return json({
+    shop,
+    detailUrl,
+    subscription: overview.subscription,
+    usage: overview.usage,
+    isDevelopmentStore: overview.shop.isDevelopmentStore,
+    scheduledChange:
+      scheduledChange && isPlanTier(scheduledChange.toTier)
+        ? { toTier: scheduledChange.toTier, effectiveAt: scheduledChange.effectiveAt }
+        : null,
+    staff,
+  });
+}
+
+/**
+ * Leave view-as mode
+ */
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const operator = await requireOperator(request);
+  const cookie = await setViewAsShop(request, operator, null);
+  return redirect(`/superadmin/shops/${encodeURIComponent(params.shop!)}`, { headers: { "Set-Cookie": cookie } });
+};
+
+export default function SuperadminViewAsShop() {
+  const { shop, detailUrl, subscription, usage, isDevelopmentStore, scheduledChange, staff } =
+    useLoaderData<typeof loader>();
+  const submit = useSubmit();
+  const navigation = useNavigation();
+
+  const currentTier = subscription?.planTier ?? FREE_PLAN_TIER;
+  const currentPlan = PRICING_PLANS[currentTier];
+  const usagePercent = usage ? Math.min(100, Math.round((usage.orderCount / usage.orderLimit) * 100)) : 0;
+
+  return (
+    <Page title={`Viewing as ${shop}`} backAction={{ content: "Shop details", url: detailUrl }}>
+      <Layout>
+        <Layout.Section>
+          <BlockStack gap="400">
+            <Banner
+              tone="warning"
+              title="Read-only view"
+              action={{
+                content: "Exit view as shop",
+                loading: navigation.state === "submitting",
+                onAction: () => submit({}, { method: "post" }),
+              }}
+            >
+              <Text as="p">
+                This is what {shop} sees in the app. Nothing on this page can change the shop, and your visit is in
+                the audit log.
+              </Text>
+            </Banner>
+
+            {scheduledChange && (
+              <Banner tone="warning">
+                <Text as="p">
+                  Their plan changes to {PRICING_PLANS[scheduledChange.toTier].name} on{" "}
+                  {formatDateTime(scheduledChange.effectiveAt)}.
+                </Text>
+              </Banner>
+            )}
+
+            {isDevelopmentStore && (
+              <Banner tone="info">
+                <Text as="p">Development store: every feature is unlocked for free.</Text>
+              </Banner>
+            )}
+
+            <Card>
+              <BlockStack gap="300">
+                <InlineStack align="space-between" blockAlign="center">
+                  <Text as="h2" variant="headingMd">
+                    Current plan: {currentPlan.name}
+                  </Text>
+                  <Badge tone={subscription?.planStatus === "active" ? "success" : "attention"}>
+                    {subscription?.planStatus ?? "active"}
+                  </Badge>
+                </InlineStack>
+
+                {isPaidPlan(currentTier) && subscription?.billingPeriodEnd && (
+                  <Text as="p" tone="subdued">
+                    Next billing date: {formatDateTime(subscription.billingPeriodEnd)}
+                  </Text>
+                )}
+
+                {usage && (
+                  <BlockStack gap="200">
+                    <InlineStack align="space-between">
+                      <Text as="p">Orders this billing period</Text>
+                      <Text as="p" fontWeight="semibold">
+                        {usage.orderCount.toLocaleString()} / {usage.orderLimit.toLocaleString()}
+                      </Text>
+                    </InlineStack>
+                    <ProgressBar
+                      progress={usagePercent}
+                      tone={usage.isInGrace || usage.isLimitReached ? "critical" : "primary"}
+                    />
+                    {usage.isLimitReached ? (
+                      <Text as="p" tone="critical">
+                        Order limit reached: gated features are locked.
+                      </Text>
+                    ) : usage.isInGrace ? (
+                      <Text as="p" tone="caution">
+                        Over the order limit, using the grace allowance ({usage.hardLimit} orders).
+                      </Text>
+                    ) : null}
+                  </BlockStack>
+                )}
+              </BlockStack>
+            </Card>
+
+            <InlineGrid columns={{ xs: 1, md: PLAN_TIERS.length }} gap="400">
+              {PLAN_TIERS.map((tier) => {
+                const plan = PRICING_PLANS[tier];
+                return (
+                  <Card key={tier}>
+                    <BlockStack gap="200">
+                      <InlineStack align="space-between" blockAlign="center">
+                        <Text as="h3" variant="headingMd">
+                          {plan.name}
+                        </Text>
+                        {tier === currentTier && <Badge tone="success">Current</Badge>}
+                      </InlineStack>
+                      <Text as="p">
+                        {isPaidPlan(tier)
+                          ? `${formatMoney(plan.price)} / ${plan.interval === "ANNUAL" ? "year" : "month"}`
+                          : "Free"}
+                      </Text>
+                      <List>
+                        <List.Item>{orderLimitLabel(tier, plan.interval)}</List.Item>
+                        {plan.features.map((item) => (
+                          <List.Item key={item}>{item}</List.Item>
+                        ))}
+                      </List>
+                    </BlockStack>
+                  </Card>
+                );
+              })}
+            </InlineGrid>
+
+            <Card>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">
+                  Staff & roles
+                </Text>
+                {staff.length === 0 ? (
+                  <Text as="p" tone="subdued">
+                    No staff have opened the app with online tokens.
+                  </Text>
+                ) : (
+                  staff.map((member) => (
+                    <InlineStack key={member.staffId} align="space-between">
+                      <InlineStack gap="200">
+                        <Text as="p">{member.name}</Text>
+                        {member.collaborator && <Badge>Collaborator</Badge>}
+                      </InlineStack>
+                      <Text as="p">
+                        {ROLE_LABELS[member.role]}
+                        {!member.accountOwner && !member.assigned ? " (default)" : ""}
+                      </Text>
+                    </InlineStack>
+                  ))
+                )}
+              </BlockStack>
+            </Card>
+          </BlockStack>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
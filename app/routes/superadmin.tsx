@@ -0,0 +1,82 @@
+import type { LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { Form, Outlet, isRouteErrorResponse, useLoaderData, useRouteError } from "@remix-run/react";
+import { AppProvider, Box, Button, InlineStack, Page, Text } from "@shopify/polaris";
+import enTranslations from "@shopify/polaris/locales/en.json";
+import polarisStyles from "@shopify/polaris/build/esm/styles.css?url";
+import { getOperator, isSuperadminEnabled } from "~/utils/superadmin-auth.server";
+
+export const links = () => [{ rel: "stylesheet", href: polarisStyles }];
+
+export const meta: MetaFunction = () => [{ title: "Operator console" }, { name: "robots", content: "noindex" }];
+
+/**
+ * Operator console layout, outside the embedded app. Pages sign in with
+ * requireOperator(); the whole area is a 404 while ADMIN_SECRET is unset.
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  if (!isSuperadminEnabled()) {
+    throw new Response("Not found", { status: 404 });
+  }
+
+  const operator = await getOperator(request);
+  return json({ operator: operator ? { name: operator.name, viewAsShop: operator.viewAsShop } : null });
+}
+
+function ConsoleBar({ operatorName }: { operatorName: string }) {
+  return (
+    <Box background="bg-surface" borderBlockEndWidth="025" borderColor="border" padding="300">
+      <InlineStack align="space-between" blockAlign="center">
+        <InlineStack gap="400" blockAlign="center">
+          <Text as="span" variant="headingMd">
+            Operator console
+          </Text>
+          <Button url="/superadmin" variant="plain">
+            Shops
+          </Button>
+          <Button url="/superadmin/audit" variant="plain">
+            Audit log
+          </Button>
+        </InlineStack>
+        <InlineStack gap="300" blockAlign="center">
+          <Text as="span" tone="subdued">
+            {operatorName}
+          </Text>
+          <Form method="post" action="/superadmin/logout">
+            <Button submit variant="plain">
+              Sign out
+            </Button>
+          </Form>
+        </InlineStack>
+      </InlineStack>
+    </Box>
+  );
+}
+
+export default function SuperadminLayout() {
+  const { operator } = useLoaderData<typeof loader>();
+
+  return (
+    <AppProvider i18n={enTranslations}>
+      {operator && <ConsoleBar operatorName={operator.name} />}
+      <Outlet />
+    </AppProvider>
+  );
+}
+
+export function ErrorBoundary() {
+  const error = useRouteError();
+  const message = isRouteErrorResponse(error)
+    ? `${error.status} ${error.statusText || error.data}`
+    : error instanceof Error
+      ? error.message
+      : String(error);
+
+  return (
+    <AppProvider i18n={enTranslations}>
+      <Page title="Operator console">
+        <Text as="p">{message}</Text>
+      </Page>
+    </AppProvider>
+  );
+}
@@ -0,0 +1,45 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { logger } from "~/utils/logger.server";
+import { authenticateWebhook } from "~/utils/webhookVerification.server";
+import { getTopicHandler } from "~/utils/webhook-router.server";
+import { handleWebhookDelivery } from "~/utils/webhook-inbox.server";
+
+/**
+ * Single endpoint for every webhook topic (uri = "/webhooks" in shopify.app.toml).
+ * Handlers are registered per topic in app/utils/webhook-handlers.server.ts.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  // Validates the HMAC against the current and previous app secrets and
+  // throws a 401 response if it doesn't match
+  const context = await authenticateWebhook(request);
+  const { topic } = context;
+
+  if (!context.shop || !context.webhookId) {
+    return new Response("Invalid webhook", { status: 400 });
+  }
+
+  // Acknowledge unknown topics so Shopify doesn't keep retrying them
+  if (!getTopicHandler(topic)) {
+    logger.warn("Webhook received for topic without a handler", {
+      shop: context.shop,
+      topic,
+      webhookId: context.webhookId,
+    });
+    return new Response("No handler for topic", { status: 200 });
+  }
+
+  try {
+    // Stored in the webhook inbox (deduplicated by webhook id) and
+    // acknowledged immediately; a background job runs the handler
+    return await handleWebhookDelivery(context);
+  } catch (error) {
+    logger.error("Failed to store webhook delivery", {
+      shop: context.shop,
+      topic,
+      webhookId: context.webhookId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    // 500 makes Shopify redeliver later
+    return new Response("Webhook processing failed", { status: 500 });
+  }
+};
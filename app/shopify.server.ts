@@ -7,7 +7,10 @@ import {
 } from "@shopify/shopify-app-remix/server";
 import { PrismaSessionStorage } from "@shopify/shopify-app-session-storage-prisma";
 import prisma from "./db.server";
+import { EncryptedSessionStorage } from "~/utils/encrypted-session-storage.server";
 import { logger } from "~/utils/logger.server";
+import { recordShopInstall } from "~/utils/shop-lifecycle.server";
+import { refreshShopPlanIfStale } from "~/utils/shop-plan.server";
 
 const shopify = shopifyApp({
   apiKey: process.env.SHOPIFY_API_KEY,
@@ -16,19 +19,25 @@ const shopify = shopifyApp({
   scopes: process.env.SCOPES?.split(","),
   appUrl: process.env.SHOPIFY_APP_URL || "",
   authPathPrefix: "/auth",
-  sessionStorage: new PrismaSessionStorage(prisma),
+  // Access tokens are encrypted at rest when SESSION_ENCRYPTION_KEYS is set
+  sessionStorage: new EncryptedSessionStorage(new PrismaSessionStorage(prisma)),
   distribution: AppDistribution.AppStore,
   isEmbeddedApp: true,
+  // Opt-in per-staff tokens: authenticate.admin() returns the staff member's
+  // online session (see utils/staff.server.ts); the offline token is kept
+  // for webhooks and background jobs
+  useOnlineTokens: process.env.SHOPIFY_ONLINE_TOKENS === "true",
   hooks: {
-    afterAuth: async ({ session }) => {
-      // Create or update Shop record
-      await prisma.shop.upsert({
-        where: { shop: session.shop },
-        update: { updatedAt: new Date() },
-        create: { shop: session.shop }
-      });
+    afterAuth: async ({ session, admin }) => {
+      // Create or update Shop record and track install/reinstall
+      const event = await recordShopInstall(session);
 
-      logger.info("App installed successfully", { shop: session.shop });
+      if (event !== "reauthorize") {
+        logger.info("App installed successfully", { shop: session.shop, event });
+      }
+
+      // Development / Plus store flags for billing (re-checked daily)
+      await refreshShopPlanIfStale(admin.graphql, session.shop);
 
       // Add your custom post-install logic here
       // Example: Initialize default settings, trigger data sync, etc.
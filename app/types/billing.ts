@@ -5,11 +5,15 @@
 
 export type PlanTier = "starter" | "growth" | "pro";
 
+export type BillingInterval = "EVERY_30_DAYS" | "ANNUAL";
+
 export interface PricingPlan {
   id: PlanTier;
   name: string;
   price: number;
-  interval: "EVERY_30_DAYS" | "ANNUAL";
+  interval: BillingInterval;
+  /** Yearly price when the plan can also be billed ANNUAL */
+  annualPrice?: number;
   orderLimit: number;
   trialDays: number;
   features: string[];
@@ -20,6 +24,7 @@ export interface SubscriptionInfo {
   shop: string;
   planTier: PlanTier;
   planStatus: string;
+  interval: BillingInterval;
   orderCount: number;
   orderLimit: number;
   hardLimit: number;
@@ -30,4 +35,12 @@ export interface SubscriptionInfo {
   billingPeriodEnd: Date | null;
   billingPeriodStart: Date;
   isDevelopmentStore?: boolean;
+  isShopifyPlus?: boolean;
+}
+
+export interface UsageThresholds {
+  /** Share of the order limit at which isApproaching turns on (0.8 = 80%) */
+  approaching: number;
+  /** Extra orders allowed past the limit before the hard cap (0.1 = 10%) */
+  grace: number;
 }
@@ -0,0 +1,33 @@
+/**
+ * Session Types
+ * Shapes returned by /app/api/session-check and /app/api/session-refresh,
+ * shared with the client utilities that call them
+ */
+
+export interface SessionStatus {
+  shop: string;
+  /** Scopes granted to the stored access token */
+  scopes: string[];
+  /** Online (per-user) token rather than the shop's offline token */
+  isOnline: boolean;
+  /** Seconds until the access token expires; null for tokens that don't expire */
+  expiresIn: number | null;
+  expiresAt: string | null;
+}
+
+export interface SessionStatusResponse extends SessionStatus {
+  ok: true;
+}
+
+/** App features that need particular access scopes (see utils/scope-features.ts) */
+export type ScopedFeature = 'product_sync' | 'order_sync';
+
+export interface ScopeStatus {
+  /** Scopes the app is configured with (SCOPES) */
+  required: string[];
+  /** Scopes on the shop's stored session */
+  granted: string[];
+  missing: string[];
+  /** Features switched off until the missing scopes are granted */
+  unavailableFeatures: ScopedFeature[];
+}
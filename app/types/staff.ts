@@ -0,0 +1,41 @@
+/**
+ * Staff Types
+ * The staff member (Shopify user) behind an admin request
+ */
+
+export interface CurrentStaff {
+  /** Shopify user id */
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  locale: string | null;
+  accountOwner: boolean;
+  collaborator: boolean;
+  /**
+   * online_session: full profile from an online access token
+   * session_token:  only the id, from the session token's `sub` claim
+   */
+  source: 'online_session' | 'session_token';
+}
+
+export type StaffRoleName = 'owner' | 'admin' | 'editor' | 'viewer';
+
+export type Permission =
+  | 'billing:view'
+  | 'billing:manage'
+  | 'settings:view'
+  | 'settings:manage'
+  | 'staff:manage';
+
+/** A staff member as listed on the staff settings page */
+export interface StaffMember {
+  staffId: string;
+  name: string;
+  email: string | null;
+  accountOwner: boolean;
+  collaborator: boolean;
+  role: StaffRoleName;
+  /** false when the role comes from the defaults rather than a StaffRole row */
+  assigned: boolean;
+}
@@ -0,0 +1,156 @@
+/**
+ * Webhook Payload Types
+ * Shapes of the JSON bodies Shopify sends for the topics this app handles
+ */
+
+// GDPR compliance payloads
+// https://shopify.dev/docs/apps/build/privacy-law-compliance
+export interface ComplianceCustomer {
+  id: number;
+  email?: string | null;
+  phone?: string | null;
+}
+
+export interface CustomersDataRequestPayload {
+  shop_id: number;
+  shop_domain: string;
+  orders_requested: number[];
+  customer: ComplianceCustomer;
+  data_request: {
+    id: number;
+  };
+}
+
+export interface CustomersRedactPayload {
+  shop_id: number;
+  shop_domain: string;
+  customer: ComplianceCustomer;
+  orders_to_redact: number[];
+}
+
+export interface ShopRedactPayload {
+  shop_id: number;
+  shop_domain: string;
+}
+
+// App lifecycle payloads
+export interface AppUninstalledPayload {
+  id: number;
+  name: string;
+  email?: string;
+  domain?: string;
+  myshopify_domain: string;
+  [key: string]: unknown;
+}
+
+// Catalog payloads (products/create, products/update)
+export interface ProductVariantWebhook {
+  id: number;
+  admin_graphql_api_id: string;
+  title: string;
+  price: string;
+  compare_at_price: string | null;
+  sku: string | null;
+  position: number | null;
+  inventory_quantity: number | null;
+}
+
+export interface ProductImageWebhook {
+  id: number;
+  admin_graphql_api_id: string;
+  src: string;
+  alt: string | null;
+  width: number | null;
+  height: number | null;
+}
+
+export interface ProductPayload {
+  id: number;
+  admin_graphql_api_id: string;
+  title: string;
+  handle: string;
+  vendor: string | null;
+  product_type: string | null;
+  status: string | null;
+  /** Comma separated */
+  tags: string;
+  variants: ProductVariantWebhook[];
+  images: ProductImageWebhook[];
+  updated_at: string;
+}
+
+export interface ProductDeletePayload {
+  id: number;
+}
+
+// Order payloads (orders/create, orders/updated)
+export interface OrderLineItemWebhook {
+  id: number;
+  admin_graphql_api_id: string;
+  product_id: number | null;
+  variant_id: number | null;
+  title: string;
+  quantity: number;
+  price: string;
+}
+
+export interface OrderPayload {
+  id: number;
+  admin_graphql_api_id: string;
+  name: string;
+  order_number: number;
+  email: string | null;
+  currency: string;
+  test: boolean;
+  total_price: string;
+  subtotal_price: string;
+  financial_status: string | null;
+  fulfillment_status: string | null;
+  customer: {
+    id: number;
+    email?: string | null;
+    first_name?: string | null;
+    last_name?: string | null;
+  } | null;
+  line_items: OrderLineItemWebhook[];
+  created_at: string;
+  updated_at: string;
+  cancelled_at: string | null;
+}
+
+// Billing payloads (app_subscriptions/update)
+export interface AppSubscriptionsUpdatePayload {
+  app_subscription: {
+    admin_graphql_api_id: string;
+    name: string;
+    /** ACTIVE | CANCELLED | DECLINED | EXPIRED | FROZEN | PENDING | ACCEPTED */
+    status: string;
+    admin_graphql_api_shop_id: string;
+    created_at: string;
+    updated_at: string;
+    currency: string;
+    price?: string;
+    interval?: string;
+    capped_amount?: string | null;
+  };
+}
+
+/**
+ * Payload type for each handled topic, keyed by the upper-case topic name
+ * (e.g. "customers/redact" → CUSTOMERS_REDACT).
+ * Add an entry here when handling a new topic.
+ */
+export interface WebhookPayloadMap {
+  CUSTOMERS_DATA_REQUEST: CustomersDataRequestPayload;
+  CUSTOMERS_REDACT: CustomersRedactPayload;
+  SHOP_REDACT: ShopRedactPayload;
+  APP_UNINSTALLED: AppUninstalledPayload;
+  PRODUCTS_CREATE: ProductPayload;
+  PRODUCTS_UPDATE: ProductPayload;
+  PRODUCTS_DELETE: ProductDeletePayload;
+  ORDERS_CREATE: OrderPayload;
+  ORDERS_UPDATED: OrderPayload;
+  APP_SUBSCRIPTIONS_UPDATE: AppSubscriptionsUpdatePayload;
+}
+
+export type WebhookTopic = keyof WebhookPayloadMap;
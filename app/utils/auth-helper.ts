@@ -33,8 +33,11 @@ export function handleAuthError(error: unknown): void {
   
   // For other errors, try to refresh the session
   fetch('/app/api/session-refresh', { method: 'POST' })
-    .catch(() => {
+    .then((response) => {
       // If session refresh fails, reauthorize
+      if (!response.ok) reauthorizeApp();
+    })
+    .catch(() => {
       reauthorizeApp();
     });
 }
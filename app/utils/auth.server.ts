@@ -1,6 +1,39 @@
 import type { LoaderFunction, ActionFunction } from "@remix-run/node";
 import { json, redirect } from "@remix-run/node";
 import { authenticate } from "../shopify.server";
+import type { SubscriptionInfo } from "../types/billing";
+import type { CurrentStaff, Permission, StaffRoleName } from "../types/staff";
+import { FREE_PLAN_TIER, evaluatePlanAccess, inactivePlanMessage } from "./billing-plans";
+import type { PlanRequirement } from "./billing-plans";
+import { getSubscriptionInfo } from "./billing-usage.server";
+import { getCurrentStaff } from "./staff.server";
+import { resolveStaffRole } from "./staff-roles.server";
+import { ROLE_LABELS, hasPermission } from "./staff-permissions";
+
+type AdminContext = Awaited<ReturnType<typeof authenticate.admin>>;
+
+/** Passed to withAuth / withPlan loaders and actions */
+type AuthArgs = { auth: AdminContext; currentStaff: CurrentStaff | null };
+
+const PLAN_ERROR_CODES = {
+  plan_required: 'PLAN_REQUIRED',
+  inactive: 'PLAN_INACTIVE',
+  limit_reached: 'LIMIT_REACHED',
+  shopify_plus_required: 'SHOPIFY_PLUS_REQUIRED',
+} as const;
+
+/**
+ * Fetcher/action calls and API-like requests get JSON errors instead of
+ * redirects (redirects can hang spinners)
+ */
+function isFetchRequest(request: Request): boolean {
+  const isJsonAccept = request.headers.get('accept')?.includes('application/json');
+  const isRemixFetch =
+    request.headers.get('x-remix-request') === 'true' ||
+    request.headers.get('x-remix-fetch') === 'true' ||
+    request.headers.get('x-requested-with')?.toLowerCase() === 'xmlhttprequest';
+  return Boolean(isJsonAccept || isRemixFetch || request.method.toUpperCase() === 'POST');
+}
 
 /**
  * Enhanced authentication wrapper that provides better session handling
@@ -11,13 +44,7 @@ export async function enhancedAuthenticate(request: Request) {
     return result;
   } catch (_error) {
     // For fetcher/action calls or API-like requests, always return JSON error
-    // (avoid redirects that can hang spinners)
-    const isJsonAccept = request.headers.get('accept')?.includes('application/json');
-    const isRemixFetch =
-      request.headers.get('x-remix-request') === 'true' ||
-      request.headers.get('x-remix-fetch') === 'true' ||
-      request.headers.get('x-requested-with')?.toLowerCase() === 'xmlhttprequest';
-    if (isJsonAccept || isRemixFetch || request.method.toUpperCase() === 'POST') {
+    if (isFetchRequest(request)) {
       throw json(
         {
           error: 'Session expired',
@@ -36,13 +63,14 @@ export async function enhancedAuthenticate(request: Request) {
 }
 
 /**
- * Wrapper for loaders that need authentication
+ * Wrapper for loaders that need authentication. `currentStaff` is the
+ * staff member making the request (see staff.server.ts).
  */
-export function withAuth<T>(loader: (args: Parameters<LoaderFunction>[0] & { auth: Awaited<ReturnType<typeof authenticate.admin>> }) => T) {
+export function withAuth<T>(loader: (args: Parameters<LoaderFunction>[0] & AuthArgs) => T) {
   return async (args: Parameters<LoaderFunction>[0]) => {
     try {
       const auth = await enhancedAuthenticate(args.request);
-      return loader({ ...args, auth });
+      return loader({ ...args, auth, currentStaff: getCurrentStaff(auth) });
     } catch (e) {
       // If enhancedAuthenticate threw a Remix Response (e.g., json 401), return it
       if (e instanceof Response) {
@@ -54,13 +82,14 @@ export function withAuth<T>(loader: (args: Parameters<LoaderFunction>[0] & { aut
 }
 
 /**
- * Wrapper for actions that need authentication
+ * Wrapper for actions that need authentication. Record what the action
+ * changed with recordStaffActivity(shop, currentStaff, ...).
  */
-export function withAuthAction<T>(action: (args: Parameters<ActionFunction>[0] & { auth: Awaited<ReturnType<typeof authenticate.admin>> }) => T) {
+export function withAuthAction<T>(action: (args: Parameters<ActionFunction>[0] & AuthArgs) => T) {
   return async (args: Parameters<ActionFunction>[0]) => {
     try {
       const auth = await enhancedAuthenticate(args.request);
-      return action({ ...args, auth });
+      return action({ ...args, auth, currentStaff: getCurrentStaff(auth) });
     } catch (e) {
       // If enhancedAuthenticate threw a Remix Response (e.g., json 401), return it
       if (e instanceof Response) {
@@ -70,3 +99,188 @@ export function withAuthAction<T>(action: (args: Parameters<ActionFunction>[0] &
     }
   };
 }
+
+/**
+ * Throw unless the shop's plan satisfies the requirement.
+ * Fetcher requests get a 402 JSON error the UI can turn into an upgrade
+ * prompt; document loads are redirected to the plan selection page.
+ */
+export async function requirePlan(
+  request: Request,
+  shop: string,
+  requirement: PlanRequirement
+): Promise<SubscriptionInfo | null> {
+  const subscription = await getSubscriptionInfo(shop);
+  const access = evaluatePlanAccess(
+    subscription ?? { planTier: FREE_PLAN_TIER, planStatus: 'active', trialEndsAt: null, isLimitReached: false },
+    requirement
+  );
+
+  if (access.allowed) return subscription;
+
+  const { requiredTier } = access;
+
+  if (isFetchRequest(request)) {
+    if (access.reason === 'shopify_plus_required') {
+      throw json(
+        {
+          error: 'Shopify Plus required',
+          code: PLAN_ERROR_CODES.shopify_plus_required,
+          message: 'This feature is only available to Shopify Plus stores.',
+          feature: requirement.feature ?? null,
+        },
+        { status: 403 }
+      );
+    }
+
+    throw json(
+      {
+        error: 'Plan upgrade required',
+        code: PLAN_ERROR_CODES[access.reason],
+        message:
+          access.reason === 'limit_reached'
+            ? "You've reached your plan's order limit. Upgrade to unlock this feature."
+            : access.reason === 'inactive'
+              ? inactivePlanMessage(subscription?.planStatus ?? 'active')
+              : `This feature requires the ${requiredTier} plan or higher.`,
+        requiredTier,
+        currentTier: subscription?.planTier ?? FREE_PLAN_TIER,
+        feature: requirement.feature ?? null,
+        upgradeUrl: '/app/billing',
+      },
+      { status: 402 }
+    );
+  }
+
+  // Keep host/shop/embedded so the billing page loads inside the admin;
+  // nothing else (e.g. Remix's _data on client navigations) is carried over
+  const url = new URL(request.url);
+  const params = new URLSearchParams();
+  for (const key of ['host', 'shop', 'embedded']) {
+    const value = url.searchParams.get(key);
+    if (value !== null) params.set(key, value);
+  }
+  params.set('required', requiredTier);
+  if (requirement.feature) params.set('feature', requirement.feature);
+  if (access.reason === 'shopify_plus_required') params.set('shopifyPlus', 'true');
+  if (access.reason === 'limit_reached') params.set('limitReached', 'true');
+  if (access.reason === 'inactive') params.set('inactive', subscription?.planStatus ?? 'active');
+  throw redirect(`/app/billing?${params.toString()}`);
+}
+
+/**
+ * Wrapper for loaders that need authentication and a minimum plan
+ *
+ *   export const loader = withPlan({ feature: "experiments" }, async ({ auth, subscription }) => { ... });
+ */
+export function withPlan<T>(
+  requirement: PlanRequirement,
+  loader: (args: Parameters<LoaderFunction>[0] & AuthArgs & { subscription: SubscriptionInfo | null }) => T
+) {
+  return withAuth(async (args) => {
+    let subscription: SubscriptionInfo | null;
+    try {
+      subscription = await requirePlan(args.request, args.auth.session.shop, requirement);
+    } catch (e) {
+      // Return the 402 JSON / redirect thrown by requirePlan. Responses the
+      // loader itself throws are left to reach the ErrorBoundary.
+      if (e instanceof Response) {
+        return e;
+      }
+      throw e;
+    }
+    return loader({ ...args, subscription });
+  });
+}
+
+/**
+ * Wrapper for actions that need authentication and a minimum plan
+ */
+export function withPlanAction<T>(
+  requirement: PlanRequirement,
+  action: (args: Parameters<ActionFunction>[0] & AuthArgs & { subscription: SubscriptionInfo | null }) => T
+) {
+  return withAuthAction(async (args) => {
+    let subscription: SubscriptionInfo | null;
+    try {
+      subscription = await requirePlan(args.request, args.auth.session.shop, requirement);
+    } catch (e) {
+      if (e instanceof Response) {
+        return e;
+      }
+      throw e;
+    }
+    return action({ ...args, subscription });
+  });
+}
+
+/**
+ * Throw a 403 JSON error unless the staff member's role grants the
+ * permission. Returns the resolved role.
+ */
+export async function requirePermission(
+  shop: string,
+  staff: CurrentStaff | null,
+  permission: Permission
+): Promise<StaffRoleName> {
+  const role = await resolveStaffRole(shop, staff);
+  if (hasPermission(role, permission)) return role;
+
+  throw json(
+    {
+      error: 'Permission denied',
+      code: 'PERMISSION_DENIED',
+      message: `Your role (${ROLE_LABELS[role]}) doesn't allow this. Ask the store owner for access.`,
+      permission,
+      role,
+    },
+    { status: 403 }
+  );
+}
+
+/**
+ * Wrapper for loaders that need a permission
+ *
+ *   export const loader = withPermission("staff:manage", async ({ auth, currentStaff, role }) => { ... });
+ */
+export function withPermission<T>(
+  permission: Permission,
+  loader: (args: Parameters<LoaderFunction>[0] & AuthArgs & { role: StaffRoleName }) => T
+) {
+  return withAuth(async (args) => {
+    let role: StaffRoleName;
+    try {
+      role = await requirePermission(args.auth.session.shop, args.currentStaff, permission);
+    } catch (e) {
+      // Return the 403 JSON thrown by requirePermission (not the loader's own responses)
+      if (e instanceof Response) {
+        return e;
+      }
+      throw e;
+    }
+    return loader({ ...args, role });
+  });
+}
+
+/**
+ * Wrapper for actions that need a permission
+ *
+ *   export const action = withPermissionAction("billing:manage", async ({ auth, currentStaff }) => { ... });
+ */
+export function withPermissionAction<T>(
+  permission: Permission,
+  action: (args: Parameters<ActionFunction>[0] & AuthArgs & { role: StaffRoleName }) => T
+) {
+  return withAuthAction(async (args) => {
+    let role: StaffRoleName;
+    try {
+      role = await requirePermission(args.auth.session.shop, args.currentStaff, permission);
+    } catch (e) {
+      if (e instanceof Response) {
+        return e;
+      }
+      throw e;
+    }
+    return action({ ...args, role });
+  });
+}
@@ -0,0 +1,261 @@
+/**
+ * Plan Catalog
+ *
+ * The single source of truth for the app's pricing plans. Safe to import
+ * from both client and server code (pricing pages, loaders, billing).
+ *
+ * The starter plan is free and needs no Shopify charge; paid plans are
+ * billed as recurring app subscriptions (see billing.server.ts).
+ *
+ * orderLimit is per month. Annual billing meters usage over the whole
+ * 365-day period, so its limit is twelve months' worth (periodOrderLimit).
+ */
+
+import type { BillingInterval, PlanTier, PricingPlan, SubscriptionInfo } from '../types/billing';
+
+export const BILLING_CURRENCY = 'USD';
+
+export const PRICING_PLANS: Record<PlanTier, PricingPlan> = {
+  starter: {
+    id: 'starter',
+    name: 'Starter',
+    price: 0,
+    interval: 'EVERY_30_DAYS',
+    orderLimit: 50,
+    trialDays: 0,
+    features: ['Core features'],
+    supportLevel: 'Email',
+  },
+  growth: {
+    id: 'growth',
+    name: 'Growth',
+    price: 29,
+    interval: 'EVERY_30_DAYS',
+    annualPrice: 290,
+    orderLimit: 500,
+    trialDays: 14,
+    features: ['Core features', 'Analytics'],
+    supportLevel: 'Priority email',
+  },
+  pro: {
+    id: 'pro',
+    name: 'Pro',
+    price: 99,
+    interval: 'EVERY_30_DAYS',
+    annualPrice: 990,
+    orderLimit: 5000,
+    trialDays: 14,
+    features: ['Core features', 'Analytics', 'API access'],
+    supportLevel: 'Priority email & chat',
+  },
+};
+
+/** Plans from lowest to highest */
+export const PLAN_TIERS: PlanTier[] = ['starter', 'growth', 'pro'];
+
+export const FREE_PLAN_TIER: PlanTier = 'starter';
+
+export function isPlanTier(value: unknown): value is PlanTier {
+  return typeof value === 'string' && (PLAN_TIERS as string[]).includes(value);
+}
+
+export function getPlan(tier: PlanTier): PricingPlan {
+  return PRICING_PLANS[tier];
+}
+
+export function isPaidPlan(tier: PlanTier): boolean {
+  return PRICING_PLANS[tier].price > 0;
+}
+
+/**
+ * Negative when `a` is a lower plan than `b`, positive when higher
+ */
+export function comparePlanTiers(a: PlanTier, b: PlanTier): number {
+  return PLAN_TIERS.indexOf(a) - PLAN_TIERS.indexOf(b);
+}
+
+export interface PlanSelection {
+  tier: PlanTier;
+  interval: BillingInterval;
+}
+
+export function isBillingInterval(value: unknown): value is BillingInterval {
+  return value === 'EVERY_30_DAYS' || value === 'ANNUAL';
+}
+
+export function supportsInterval(tier: PlanTier, interval: BillingInterval): boolean {
+  const plan = PRICING_PLANS[tier];
+  return interval === plan.interval || (interval === 'ANNUAL' && plan.annualPrice !== undefined);
+}
+
+/**
+ * Price charged per interval for a plan
+ */
+export function planPrice(tier: PlanTier, interval: BillingInterval): number {
+  const plan = PRICING_PLANS[tier];
+  return interval === 'ANNUAL' && plan.annualPrice !== undefined ? plan.annualPrice : plan.price;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Length of one billing period
+ */
+export function billingPeriodMs(interval: string): number {
+  return (interval === 'ANNUAL' ? 365 : 30) * DAY_MS;
+}
+
+/**
+ * Orders allowed in one billing period of the interval
+ */
+export function periodOrderLimit(tier: PlanTier, interval: string): number {
+  return PRICING_PLANS[tier].orderLimit * (interval === 'ANNUAL' ? 12 : 1);
+}
+
+/**
+ * Plan card copy for the order limit, e.g. "Up to 6,000 orders per year"
+ */
+export function orderLimitLabel(tier: PlanTier, interval: string): string {
+  return `Up to ${periodOrderLimit(tier, interval).toLocaleString('en-US')} orders per ${interval === 'ANNUAL' ? 'year' : 'month'}`;
+}
+
+/**
+ * Upgrades (higher tier, or the same tier moving from monthly to annual)
+ * take effect immediately. Downgrades (lower tier, or annual to monthly)
+ * take effect at the end of the current billing period.
+ */
+export function classifyPlanChange(
+  from: PlanSelection,
+  to: PlanSelection
+): 'upgrade' | 'downgrade' | 'none' {
+  const tierOrder = comparePlanTiers(to.tier, from.tier);
+  if (tierOrder !== 0) return tierOrder > 0 ? 'upgrade' : 'downgrade';
+  if (to.interval === from.interval || !isPaidPlan(to.tier)) return 'none';
+  return to.interval === 'ANNUAL' ? 'upgrade' : 'downgrade';
+}
+
+/**
+ * Lowest plan that includes each gated feature. Gate routes with
+ * withPlan({ feature: 'experiments' }) instead of checking tiers by hand.
+ */
+export const FEATURE_MIN_TIER = {
+  analytics: 'growth',
+  experiments: 'growth',
+  api_access: 'pro',
+} satisfies Record<string, PlanTier>;
+
+export type PlanFeature = keyof typeof FEATURE_MIN_TIER;
+
+export interface PlanRequirement {
+  minTier?: PlanTier;
+  feature?: PlanFeature;
+  /** Only Shopify Plus stores (including Plus sandboxes) */
+  shopifyPlus?: boolean;
+}
+
+export type PlanAccess =
+  | { allowed: true; reason: 'plan' | 'trial' | 'development_store' }
+  | {
+      allowed: false;
+      reason: 'plan_required' | 'inactive' | 'limit_reached' | 'shopify_plus_required';
+      requiredTier: PlanTier;
+    };
+
+/**
+ * Tier a requirement resolves to - the higher of minTier and the feature's tier
+ */
+export function requiredTierFor({ minTier, feature }: PlanRequirement): PlanTier {
+  const featureTier = feature ? FEATURE_MIN_TIER[feature] : FREE_PLAN_TIER;
+  const tier = minTier ?? FREE_PLAN_TIER;
+  return comparePlanTiers(tier, featureTier) >= 0 ? tier : featureTier;
+}
+
+/**
+ * Decide whether a shop's subscription satisfies a requirement.
+ *
+ * Lock-out rules:
+ * - Development stores get every plan feature
+ * - Plus-only features need a Plus store whatever the plan, as they
+ *   usually rely on Plus-only APIs
+ * - Features above the shop's tier are locked; after a downgrade this
+ *   applies from the date the downgrade takes effect, never before
+ * - At the hard cap (orderLimit + grace) every gated feature is locked
+ *   until the next billing period or an upgrade. Ungated pages (dashboard,
+ *   billing) stay open, and no data is deleted.
+ * - Shops inside their plan's trial keep access whatever the charge status
+ */
+export function evaluatePlanAccess(
+  info: Pick<
+    SubscriptionInfo,
+    'planTier' | 'planStatus' | 'trialEndsAt' | 'isDevelopmentStore' | 'isShopifyPlus' | 'isLimitReached'
+  >,
+  requirement: PlanRequirement,
+  now: Date = new Date()
+): PlanAccess {
+  const requiredTier = requiredTierFor(requirement);
+
+  if (requirement.shopifyPlus && !info.isShopifyPlus) {
+    return { allowed: false, reason: 'shopify_plus_required', requiredTier };
+  }
+
+  if (info.isDevelopmentStore) {
+    return { allowed: true, reason: 'development_store' };
+  }
+
+  if (comparePlanTiers(info.planTier, requiredTier) < 0) {
+    return { allowed: false, reason: 'plan_required', requiredTier };
+  }
+
+  const isGated = requirement.feature !== undefined || requiredTier !== FREE_PLAN_TIER;
+  if (isGated && info.isLimitReached) {
+    return { allowed: false, reason: 'limit_reached', requiredTier };
+  }
+
+  const inTrial = info.trialEndsAt !== null && new Date(info.trialEndsAt) > now;
+  if (inTrial) {
+    return { allowed: true, reason: 'trial' };
+  }
+
+  // The free plan never lapses; paid plans need an active charge
+  if (info.planStatus !== 'active' && requiredTier !== FREE_PLAN_TIER) {
+    return { allowed: false, reason: 'inactive', requiredTier };
+  }
+
+  return { allowed: true, reason: 'plan' };
+}
+
+// A paid plan is only ever active or frozen: a cancelled, declined or
+// expired charge moves the shop to the free plan instead
+const INACTIVE_PLAN_MESSAGES: Record<string, string> = {
+  frozen: "Your plan is paused because Shopify froze the store's billing. Settle your Shopify bill to unlock this feature.",
+};
+
+/**
+ * Why a paid plan isn't active, for the 'inactive' PlanAccess reason
+ */
+export function inactivePlanMessage(planStatus: string): string {
+  return INACTIVE_PLAN_MESSAGES[planStatus] ?? 'Your plan is not active. Choose a plan to unlock this feature.';
+}
+
+/**
+ * What a shop loses by moving to a lower plan, for the downgrade
+ * confirmation. exceedsNewLimit means current usage would already be over
+ * the new plan's limit, so gated features lock at the hard cap sooner.
+ */
+export function describeDowngrade(
+  info: Pick<SubscriptionInfo, 'planTier' | 'orderCount'>,
+  to: PlanSelection
+) {
+  const newOrderLimit = periodOrderLimit(to.tier, to.interval);
+  const lostFeatures = (Object.keys(FEATURE_MIN_TIER) as PlanFeature[]).filter(
+    (feature) =>
+      comparePlanTiers(info.planTier, FEATURE_MIN_TIER[feature]) >= 0 &&
+      comparePlanTiers(to.tier, FEATURE_MIN_TIER[feature]) < 0
+  );
+
+  return {
+    lostFeatures,
+    newOrderLimit,
+    exceedsNewLimit: info.orderCount > newOrderLimit,
+  };
+}
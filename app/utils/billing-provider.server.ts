@@ -0,0 +1,212 @@
+/**
+ * Billing Providers
+ *
+ * The Shopify calls billing.server.ts needs (create, read and cancel a
+ * recurring charge), behind an interface with two implementations:
+ * - shopify: the Admin GraphQL billing mutations (default)
+ * - fake:    an in-process stand-in (fake-billing.server.ts) for local
+ *            development and CI without network access to Shopify
+ *
+ * Select with BILLING_PROVIDER=shopify|fake. The fake is refused in
+ * production.
+ *
+ * Usage:
+ *   const provider = getBillingProvider(admin.graphql);
+ *   const charge = await provider.getCharge(shop, id);
+ */
+
+import type { AdminGraphqlClient } from '@shopify/shopify-app-remix/server';
+import { unauthenticated } from '../shopify.server';
+import { logger } from './logger.server';
+import { env } from './env.server';
+import { fakeBillingProvider } from './fake-billing.server';
+import type { BillingInterval } from '../types/billing';
+
+export type BillingProviderName = 'shopify' | 'fake';
+
+export type ReplacementBehavior = 'APPLY_IMMEDIATELY' | 'APPLY_ON_NEXT_BILLING_CYCLE';
+
+export interface CreateChargeInput {
+  shop: string;
+  name: string;
+  price: number;
+  currencyCode: string;
+  interval: BillingInterval;
+  trialDays: number;
+  test: boolean;
+  returnUrl: string;
+  replacementBehavior: ReplacementBehavior;
+}
+
+/** A recurring charge as Shopify reports it (status is uppercase, e.g. ACTIVE) */
+export interface BillingCharge {
+  id: string;
+  name: string;
+  status: string;
+  test: boolean;
+  trialDays: number;
+  createdAt: string;
+  currentPeriodEnd: string | null;
+}
+
+export interface BillingProvider {
+  readonly name: BillingProviderName;
+  /** Create a charge awaiting merchant approval */
+  createCharge(input: CreateChargeInput): Promise<{ id: string; confirmationUrl: string }>;
+  /** Null if no charge with that id exists for the shop */
+  getCharge(shop: string, id: string): Promise<BillingCharge | null>;
+  cancelCharge(shop: string, id: string): Promise<void>;
+}
+
+const APP_SUBSCRIPTION_CREATE = `#graphql
+  mutation AppSubscriptionCreate(
+    $name: String!
+    $returnUrl: URL!
+    $test: Boolean
+    $trialDays: Int
+    $replacementBehavior: AppSubscriptionReplacementBehavior
+    $lineItems: [AppSubscriptionLineItemInput!]!
+  ) {
+    appSubscriptionCreate(
+      name: $name
+      returnUrl: $returnUrl
+      test: $test
+      trialDays: $trialDays
+      replacementBehavior: $replacementBehavior
+      lineItems: $lineItems
+    ) {
+      confirmationUrl
+      appSubscription {
+        id
+        status
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const APP_SUBSCRIPTION_CANCEL = `#graphql
+  mutation AppSubscriptionCancel($id: ID!, $prorate: Boolean) {
+    appSubscriptionCancel(id: $id, prorate: $prorate) {
+      appSubscription {
+        id
+        status
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const APP_SUBSCRIPTION_QUERY = `#graphql
+  query AppSubscription($id: ID!) {
+    node(id: $id) {
+      ... on AppSubscription {
+        id
+        name
+        status
+        test
+        trialDays
+        createdAt
+        currentPeriodEnd
+      }
+    }
+  }
+`;
+
+/**
+ * Shopify Admin GraphQL billing for one shop's admin client
+ */
+export function createShopifyBillingProvider(graphql: AdminGraphqlClient): BillingProvider {
+  return {
+    name: 'shopify',
+
+    async createCharge(input) {
+      const response = await graphql(APP_SUBSCRIPTION_CREATE, {
+        variables: {
+          name: input.name,
+          returnUrl: input.returnUrl,
+          test: input.test,
+          trialDays: input.trialDays,
+          replacementBehavior: input.replacementBehavior,
+          lineItems: [
+            {
+              plan: {
+                appRecurringPricingDetails: {
+                  price: { amount: input.price, currencyCode: input.currencyCode },
+                  interval: input.interval,
+                },
+              },
+            },
+          ],
+        },
+      });
+
+      const { data } = await response.json();
+      const result = data?.appSubscriptionCreate;
+
+      if (!result || result.userErrors.length > 0) {
+        const message = result?.userErrors.map((e: { message: string }) => e.message).join(', ');
+        logger.error('Billing: appSubscriptionCreate failed', { shop: input.shop, name: input.name, errors: message });
+        throw new Error(message || 'Could not create subscription');
+      }
+
+      return { id: result.appSubscription.id, confirmationUrl: result.confirmationUrl };
+    },
+
+    // The admin client only reads the shop's own charges, so shop is implied
+    async getCharge(_shop, id) {
+      const response = await graphql(APP_SUBSCRIPTION_QUERY, { variables: { id } });
+      const { data } = await response.json();
+      const charge = data?.node as BillingCharge | null;
+      return charge?.id ? charge : null;
+    },
+
+    async cancelCharge(shop, id) {
+      const response = await graphql(APP_SUBSCRIPTION_CANCEL, {
+        variables: { id, prorate: true },
+      });
+      const { data } = await response.json();
+      const errors: { message: string }[] = data?.appSubscriptionCancel?.userErrors ?? [];
+
+      if (errors.length > 0) {
+        const message = errors.map((e) => e.message).join(', ');
+        logger.error('Billing: appSubscriptionCancel failed', { shop, subscriptionId: id, errors: message });
+        throw new Error(message);
+      }
+    },
+  };
+}
+
+function selectedProvider(): BillingProviderName {
+  if (env.billingProvider !== 'fake') return 'shopify';
+  if (env.isProduction) {
+    throw new Error('BILLING_PROVIDER=fake cannot be used in production');
+  }
+  return 'fake';
+}
+
+export function isFakeBillingEnabled(): boolean {
+  return selectedProvider() === 'fake';
+}
+
+/**
+ * Provider for a request with an authenticated admin client
+ */
+export function getBillingProvider(graphql: AdminGraphqlClient): BillingProvider {
+  return selectedProvider() === 'fake' ? fakeBillingProvider : createShopifyBillingProvider(graphql);
+}
+
+/**
+ * Provider for background work (jobs, webhooks) using the shop's offline session
+ */
+export async function getBillingProviderForShop(shop: string): Promise<BillingProvider> {
+  if (selectedProvider() === 'fake') return fakeBillingProvider;
+  const { admin } = await unauthenticated.admin(shop);
+  return createShopifyBillingProvider(admin.graphql);
+}
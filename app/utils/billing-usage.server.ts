@@ -0,0 +1,168 @@
+/**
+ * Order Usage Metering
+ *
+ * Counts orders against the shop's plan limit in the BilledOrder ledger and
+ * derives the SubscriptionInfo usage flags:
+ * - isApproaching:  usage reached the approaching threshold (default 80%)
+ * - isInGrace:      over the plan limit but under the hard cap
+ * - isLimitReached: at or over the hard cap (orderLimit plus the grace allowance)
+ *
+ * Usage rolls over when billingPeriodEnd passes: the period is advanced by
+ * the plan interval and counting starts again from zero. Annual periods
+ * allow twelve months of orders (periodOrderLimit). An upgrade within the
+ * period keeps the count; a move to the free plan starts a new period.
+ *
+ * Usage:
+ *   const info = await getSubscriptionInfo(shop);
+ *   if (info?.isLimitReached) { ... }
+ */
+
+import type { Subscription } from '@prisma/client';
+import { Prisma } from '@prisma/client';
+import prisma from '../db.server';
+import { logger } from './logger.server';
+import type { PlanTier, SubscriptionInfo, UsageThresholds } from '../types/billing';
+import {
+  FREE_PLAN_TIER,
+  PRICING_PLANS,
+  billingPeriodMs,
+  isBillingInterval,
+  isPlanTier,
+  periodOrderLimit,
+} from './billing-plans';
+import { getOrCreateSubscription } from './billing.server';
+
+export const DEFAULT_USAGE_THRESHOLDS: UsageThresholds = {
+  approaching: 0.8,
+  grace: 0.1,
+};
+
+function planTierOf(subscription: Subscription): PlanTier {
+  return isPlanTier(subscription.planTier) ? subscription.planTier : FREE_PLAN_TIER;
+}
+
+/**
+ * Advance the subscription's billing period until it contains `now`.
+ * Safe to call concurrently: only the caller that still sees the old
+ * period start moves it forward.
+ */
+export async function rollBillingPeriod(
+  subscription: Subscription,
+  now: Date = new Date()
+): Promise<Subscription> {
+  const length = billingPeriodMs(subscription.interval);
+  let start = subscription.billingPeriodStart;
+  let end = subscription.billingPeriodEnd ?? new Date(start.getTime() + length);
+
+  while (end <= now) {
+    start = end;
+    end = new Date(end.getTime() + length);
+  }
+
+  if (
+    start.getTime() === subscription.billingPeriodStart.getTime() &&
+    subscription.billingPeriodEnd?.getTime() === end.getTime()
+  ) {
+    return subscription;
+  }
+
+  await prisma.subscription.updateMany({
+    where: { shop: subscription.shop, billingPeriodStart: subscription.billingPeriodStart },
+    data: { billingPeriodStart: start, billingPeriodEnd: end },
+  });
+
+  if (start.getTime() !== subscription.billingPeriodStart.getTime()) {
+    logger.info('Billing: Usage period rolled over', { shop: subscription.shop, billingPeriodStart: start });
+  }
+
+  return prisma.subscription.findUniqueOrThrow({ where: { shop: subscription.shop } });
+}
+
+/**
+ * Count an order against the current billing period.
+ * Returns false if the order was already counted (redelivery or replay).
+ */
+export async function recordBilledOrder(
+  shop: string,
+  order: { orderId: string; orderName?: string | null }
+): Promise<boolean> {
+  const subscription = await rollBillingPeriod(await getOrCreateSubscription(shop));
+
+  try {
+    await prisma.billedOrder.create({
+      data: {
+        shop,
+        orderId: order.orderId,
+        orderName: order.orderName ?? null,
+        billingPeriodStart: subscription.billingPeriodStart,
+      },
+    });
+    return true;
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Orders counted in the shop's current billing period
+ */
+export async function countBilledOrders(shop: string, billingPeriodStart: Date): Promise<number> {
+  return prisma.billedOrder.count({ where: { shop, billingPeriodStart } });
+}
+
+/**
+ * Derive the usage flags from a count and limit
+ */
+export function computeUsage(
+  orderCount: number,
+  orderLimit: number,
+  thresholds: UsageThresholds = DEFAULT_USAGE_THRESHOLDS
+) {
+  const hardLimit = Math.ceil(orderLimit * (1 + thresholds.grace));
+
+  return {
+    orderCount,
+    orderLimit,
+    hardLimit,
+    isApproaching: orderCount >= Math.floor(orderLimit * thresholds.approaching) && orderCount < orderLimit,
+    isInGrace: orderCount >= orderLimit && orderCount < hardLimit,
+    isLimitReached: orderCount >= hardLimit,
+  };
+}
+
+/**
+ * Plan, status and usage for a shop. Null if the shop has never been
+ * installed (no Shop row) so callers don't create subscriptions for
+ * arbitrary domains.
+ */
+export async function getSubscriptionInfo(
+  shop: string,
+  thresholds: UsageThresholds = DEFAULT_USAGE_THRESHOLDS
+): Promise<SubscriptionInfo | null> {
+  const installed = await prisma.shop.findUnique({
+    where: { shop },
+    select: { isDevelopmentStore: true, isShopifyPlus: true },
+  });
+  if (!installed) return null;
+
+  const subscription = await rollBillingPeriod(await getOrCreateSubscription(shop));
+  const planTier = planTierOf(subscription);
+  const orderCount = await countBilledOrders(shop, subscription.billingPeriodStart);
+  const interval = isBillingInterval(subscription.interval) ? subscription.interval : PRICING_PLANS[planTier].interval;
+
+  return {
+    shop,
+    planTier,
+    planStatus: subscription.planStatus,
+    interval,
+    ...computeUsage(orderCount, periodOrderLimit(planTier, interval), thresholds),
+    trialEndsAt: subscription.trialEndsAt,
+    billingPeriodStart: subscription.billingPeriodStart,
+    billingPeriodEnd: subscription.billingPeriodEnd,
+    isDevelopmentStore: installed.isDevelopmentStore,
+    isShopifyPlus: installed.isShopifyPlus,
+  };
+}
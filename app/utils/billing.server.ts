@@ -0,0 +1,781 @@
+/**
+ * Billing
+ *
+ * Creates and activates Shopify recurring app subscriptions for the plans
+ * in billing-plans.ts and keeps the shop's Subscription row in step.
+ *
+ * Plan changes (tier or interval) go through requestPlanChange() and are
+ * tracked as PlanChange rows:
+ * - Upgrades create a charge that replaces the current one as soon as the
+ *   merchant approves it (Shopify prorates the difference)
+ * - Downgrades take effect at the end of the current billing period. A
+ *   downgrade to another paid plan is a charge with
+ *   APPLY_ON_NEXT_BILLING_CYCLE; a downgrade to the free plan is a job
+ *   (PLAN_CHANGE_JOB) that cancels the charge at billingPeriodEnd
+ * - Downgrades during a trial, or from a plan that isn't being paid for,
+ *   apply straight away as there is nothing left to use up
+ * - A new request supersedes any change still open, and a scheduled
+ *   downgrade can be revoked with revokeScheduledPlanChange()
+ *
+ * Approval flow:
+ * 1. requestPlanChange() calls appSubscriptionCreate and records the change
+ *    as pending_approval; the caller redirects to the confirmation URL
+ * 2. Shopify sends the merchant back to /app/billing/confirm?charge_id=...
+ * 3. confirmSubscription() reads the charge and applies (or schedules) the
+ *    change if the merchant approved it
+ *
+ * Changes made outside the app (declines, freezes, cancellation in the
+ * Shopify admin) arrive via app_subscriptions/update. Every transition is
+ * logged to SubscriptionStatusChange.
+ *
+ * Charges are created, read and cancelled through a BillingProvider
+ * (billing-provider.server.ts), so BILLING_PROVIDER=fake runs these flows
+ * without Shopify.
+ *
+ * Usage (in an action):
+ *   const { admin, session, redirect } = await authenticate.admin(request);
+ *   const result = await requestPlanChange(admin.graphql, session.shop, { tier: "growth", interval: "ANNUAL" });
+ *   if (result.outcome === "confirm") return redirect(result.confirmationUrl, { target: "_top" });
+ */
+
+import type { PlanChange, Subscription } from '@prisma/client';
+import type { AdminGraphqlClient } from '@shopify/shopify-app-remix/server';
+import prisma from '../db.server';
+import { logger } from './logger.server';
+import { env } from './env.server';
+import type { BillingProvider, ReplacementBehavior } from './billing-provider.server';
+import { getBillingProvider, getBillingProviderForShop, isFakeBillingEnabled } from './billing-provider.server';
+import { enqueueJob } from './job-queue.server';
+import { getShopPlanFlags } from './shop-plan.server';
+import type { BillingInterval } from '../types/billing';
+import type { AppSubscriptionsUpdatePayload } from '../types/webhooks';
+import type { PlanSelection } from './billing-plans';
+import {
+  BILLING_CURRENCY,
+  FREE_PLAN_TIER,
+  PRICING_PLANS,
+  billingPeriodMs,
+  classifyPlanChange,
+  comparePlanTiers,
+  isBillingInterval,
+  isPaidPlan,
+  isPlanTier,
+  planPrice,
+  supportsInterval,
+} from './billing-plans';
+
+export type SubscriptionStatus =
+  | 'active'
+  | 'pending'
+  | 'declined'
+  | 'expired'
+  | 'frozen'
+  | 'cancelled';
+
+export type ConfirmationResult = 'activated' | 'scheduled' | 'declined' | 'pending' | 'not_found';
+
+export type StatusChangeSource = 'confirmation' | 'webhook' | 'cancellation' | 'scheduled' | 'uninstall';
+
+export type PlanChangeStatus =
+  | 'pending_approval'
+  | 'scheduled'
+  | 'applied'
+  | 'declined'
+  | 'revoked'
+  | 'superseded';
+
+export type PlanChangeResult =
+  | { outcome: 'confirm'; confirmationUrl: string; change: PlanChange }
+  | { outcome: 'scheduled'; effectiveAt: Date; change: PlanChange }
+  | { outcome: 'applied'; change: PlanChange };
+
+/** Job that applies a scheduled PlanChange at its effectiveAt */
+export const PLAN_CHANGE_JOB = 'billing.apply_plan_change';
+
+const OPEN_PLAN_CHANGE_STATUSES: PlanChangeStatus[] = ['pending_approval', 'scheduled'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The shop's subscription, created on the free plan the first time it's read
+ */
+export async function getOrCreateSubscription(shop: string) {
+  return prisma.subscription.upsert({
+    where: { shop },
+    update: {},
+    create: { shop, planTier: FREE_PLAN_TIER },
+  });
+}
+
+/**
+ * URL Shopify sends the merchant back to after approving or declining a
+ * charge. Points at the embedded app so the return loads inside the admin.
+ * Fake charges never leave the app, so they get an app path instead and
+ * the flow runs without reaching admin.shopify.com.
+ */
+export function getBillingReturnUrl(shop: string): string {
+  if (isFakeBillingEnabled()) return '/app/billing/confirm';
+  const storeHandle = shop.replace('.myshopify.com', '');
+  return `https://admin.shopify.com/store/${storeHandle}/apps/${env.shopifyApiKey}/app/billing/confirm`;
+}
+
+/**
+ * Development stores can't pay real charges, so they always get test charges
+ */
+export async function shouldUseTestCharges(shop: string): Promise<boolean> {
+  if (env.billingTestMode) return true;
+  return (await getShopPlanFlags(shop)).isDevelopmentStore;
+}
+
+/**
+ * The plan and interval the shop is on now
+ */
+export function currentSelection(subscription: Subscription): PlanSelection {
+  const tier = isPlanTier(subscription.planTier) ? subscription.planTier : FREE_PLAN_TIER;
+  const interval = isBillingInterval(subscription.interval) ? subscription.interval : PRICING_PLANS[tier].interval;
+  return { tier, interval };
+}
+
+/**
+ * The shop's open plan change (awaiting approval or scheduled), if any
+ */
+export async function getOpenPlanChange(shop: string): Promise<PlanChange | null> {
+  return prisma.planChange.findFirst({
+    where: { shop, status: { in: OPEN_PLAN_CHANGE_STATUSES } },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Move the shop to another plan or interval. Upgrades return a
+ * confirmation URL; downgrades are scheduled for the end of the billing
+ * period (a downgrade to another paid plan still needs the merchant to
+ * approve the new charge first).
+ */
+export async function requestPlanChange(
+  graphql: AdminGraphqlClient,
+  shop: string,
+  to: PlanSelection
+): Promise<PlanChangeResult> {
+  if (!supportsInterval(to.tier, to.interval)) {
+    throw new Error(`Plan "${to.tier}" can't be billed ${to.interval}`);
+  }
+
+  const current = await getOrCreateSubscription(shop);
+  const from = currentSelection(current);
+  const kind = classifyPlanChange(from, to);
+
+  if (kind === 'none') {
+    throw new Error(`Already on the ${PRICING_PLANS[to.tier].name} plan`);
+  }
+
+  const billing = getBillingProvider(graphql);
+
+  const now = new Date();
+  const inTrial = current.trialEndsAt !== null && current.trialEndsAt > now;
+  const hasPaidPeriod = isPaidPlan(from.tier) && current.shopifySubscriptionId !== null && !inTrial;
+  const effectiveAt = kind === 'downgrade' && hasPaidPeriod ? currentPeriodEnd(current, now) : null;
+
+  const changeData = {
+    shop,
+    fromTier: from.tier,
+    fromInterval: from.interval,
+    toTier: to.tier,
+    toInterval: to.interval,
+    kind,
+    effectiveAt,
+  };
+
+  if (isPaidPlan(to.tier)) {
+    const charge = await createCharge(
+      billing,
+      shop,
+      to,
+      effectiveAt ? 'APPLY_ON_NEXT_BILLING_CYCLE' : 'APPLY_IMMEDIATELY'
+    );
+    // Only once the charge exists, so a failed request keeps a scheduled change
+    await supersedeOpenPlanChanges(billing, shop);
+    const change = await prisma.planChange.create({
+      data: { ...changeData, shopifySubscriptionId: charge.id },
+    });
+
+    logger.info('Billing: Plan change awaiting approval', {
+      shop,
+      kind,
+      toTier: to.tier,
+      interval: to.interval,
+      subscriptionId: charge.id,
+      effectiveAt,
+    });
+
+    return { outcome: 'confirm', confirmationUrl: charge.confirmationUrl, change };
+  }
+
+  // Downgrade to the free plan - no charge to approve
+  await supersedeOpenPlanChanges(billing, shop);
+
+  if (effectiveAt) {
+    const change = await prisma.planChange.create({ data: { ...changeData, status: 'scheduled' } });
+    await schedulePlanChangeJob(change);
+    return { outcome: 'scheduled', effectiveAt, change };
+  }
+
+  await cancelCurrentCharge(billing, current);
+  const change = await prisma.planChange.create({ data: changeData });
+  await moveToFreePlan(current, 'cancelled', 'cancellation', change.id);
+  return { outcome: 'applied', change };
+}
+
+/**
+ * Keep the current plan: cancel a scheduled (or not yet approved)
+ * downgrade. Returns false if there was nothing to revoke.
+ */
+export async function revokeScheduledPlanChange(graphql: AdminGraphqlClient, shop: string): Promise<boolean> {
+  const change = await getOpenPlanChange(shop);
+  if (!change || change.kind !== 'downgrade') return false;
+
+  await cancelPlanChangeCharge(getBillingProvider(graphql), change);
+
+  await prisma.planChange.update({ where: { id: change.id }, data: { status: 'revoked' } });
+  logger.info('Billing: Scheduled plan change revoked', { shop, planChangeId: change.id, toTier: change.toTier });
+  return true;
+}
+
+/**
+ * Apply a scheduled change once its effectiveAt has passed. Run by
+ * PLAN_CHANGE_JOB; does nothing if the change was revoked, superseded or
+ * already applied (e.g. by the webhook for the deferred charge).
+ */
+export async function applyPlanChange(planChangeId: string): Promise<void> {
+  const change = await prisma.planChange.findUnique({ where: { id: planChangeId } });
+  if (!change || change.status !== 'scheduled' || !isPlanTier(change.toTier)) return;
+
+  if (change.effectiveAt && change.effectiveAt > new Date()) {
+    // Throw so the job is retried rather than completed
+    throw new Error(`Plan change ${planChangeId} is not due until ${change.effectiveAt.toISOString()}`);
+  }
+
+  const current = await getOrCreateSubscription(change.shop);
+
+  if (!isPaidPlan(change.toTier)) {
+    if (current.shopifySubscriptionId) {
+      try {
+        await cancelCurrentCharge(await getBillingProviderForShop(change.shop), current);
+      } catch (error) {
+        // Usually an uninstalled shop, whose charges Shopify has already cancelled
+        logger.warn('Billing: Could not cancel charge for scheduled downgrade', {
+          shop: change.shop,
+          subscriptionId: current.shopifySubscriptionId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    await moveToFreePlan(current, 'cancelled', 'scheduled', change.id);
+    return;
+  }
+
+  await activateScheduledChange(current, change, 'scheduled');
+}
+
+/**
+ * Put an uninstalled (or reinstalled) shop back on the free plan. Shopify
+ * cancels the app's charges when the app is removed, so neither the paid
+ * plan nor a change still open can carry over to a reinstall.
+ */
+export async function resetSubscriptionAfterUninstall(shop: string): Promise<void> {
+  const current = await prisma.subscription.findUnique({ where: { shop } });
+  if (!current) return;
+
+  await prisma.planChange.updateMany({
+    where: { shop, status: { in: OPEN_PLAN_CHANGE_STATUSES } },
+    data: { status: 'revoked' },
+  });
+
+  if (current.planTier === FREE_PLAN_TIER && !current.shopifySubscriptionId) return;
+  await moveToFreePlan(current, 'cancelled', 'uninstall');
+}
+
+/**
+ * Apply a plan change after the merchant returns from the confirmation
+ * page. The charge is read back from Shopify - the charge_id in the return
+ * URL is never trusted on its own.
+ */
+export async function confirmSubscription(
+  graphql: AdminGraphqlClient,
+  shop: string,
+  chargeId: string
+): Promise<ConfirmationResult> {
+  const id = chargeId.startsWith('gid://') ? chargeId : `gid://shopify/AppSubscription/${chargeId}`;
+
+  const charge = await getBillingProvider(graphql).getCharge(shop, id);
+
+  if (!charge) {
+    logger.warn('Billing: Confirmed charge not found', { shop, chargeId });
+    return 'not_found';
+  }
+
+  const current = await getOrCreateSubscription(shop);
+  const change = await findChangeForCharge(shop, charge.id);
+
+  // Already handled by the app_subscriptions/update webhook
+  if (current.shopifySubscriptionId === charge.id) return 'activated';
+
+  // Only charges for an open change apply; a stale confirmation URL for a
+  // superseded or revoked change does nothing
+  if (!change || !isPlanTier(change.toTier)) {
+    logger.warn('Billing: Confirmed charge has no open plan change', { shop, subscriptionId: charge.id });
+    return 'not_found';
+  }
+
+  if (change.status === 'scheduled') return 'scheduled';
+
+  if (change.effectiveAt && isApproved(charge.status)) {
+    await scheduleApprovedChange(change);
+    return 'scheduled';
+  }
+
+  const status = toSubscriptionStatus(charge.status);
+  if (status === 'pending') return 'pending';
+
+  if (status !== 'active') {
+    // Declined (or expired before approval) - the current plan is unchanged
+    await declinePlanChange(current, change, status, 'confirmation');
+    logger.info('Billing: Subscription not approved', { shop, subscriptionId: charge.id, status });
+    return 'declined';
+  }
+
+  const trialEndsAt =
+    charge.trialDays > 0
+      ? new Date(new Date(charge.createdAt).getTime() + charge.trialDays * DAY_MS)
+      : null;
+
+  await activatePlan(
+    current,
+    { tier: change.toTier, interval: toInterval(change) },
+    'confirmation',
+    {
+      id: charge.id,
+      test: charge.test,
+      trialEndsAt,
+      currentPeriodEnd: charge.currentPeriodEnd ? new Date(charge.currentPeriodEnd) : null,
+    },
+    change.id
+  );
+
+  return 'activated';
+}
+
+/**
+ * Apply an app_subscriptions/update webhook. Keeps planStatus in step with
+ * what Shopify is billing when a charge is approved, declined, frozen or
+ * cancelled outside the app. Updates for charges that are neither current
+ * nor part of an open plan change (e.g. the old charge Shopify cancels on
+ * an upgrade) are ignored.
+ */
+export async function applySubscriptionUpdate(
+  shop: string,
+  payload: AppSubscriptionsUpdatePayload
+): Promise<void> {
+  const charge = payload.app_subscription;
+  const chargeId = charge.admin_graphql_api_id;
+  const status = toSubscriptionStatus(charge.status);
+  const current = await getOrCreateSubscription(shop);
+  const change = await findChangeForCharge(shop, chargeId);
+
+  if (change && chargeId !== current.shopifySubscriptionId) {
+    const dueNow = !change.effectiveAt || change.effectiveAt <= new Date();
+
+    if (status === 'active' && dueNow) {
+      // Approved without the merchant coming back to the return URL, or a
+      // deferred charge that has now replaced the old one
+      const tier = isPlanTier(change.toTier) ? change.toTier : FREE_PLAN_TIER;
+      const plan = PRICING_PLANS[tier];
+      await activatePlan(
+        current,
+        { tier, interval: toInterval(change) },
+        'webhook',
+        {
+          id: chargeId,
+          test: await shouldUseTestCharges(shop),
+          trialEndsAt:
+            change.kind === 'upgrade' && plan.trialDays > 0
+              ? new Date(new Date(charge.created_at).getTime() + plan.trialDays * DAY_MS)
+              : null,
+          currentPeriodEnd: null,
+        },
+        change.id
+      );
+    } else if (isApproved(charge.status)) {
+      if (change.status === 'pending_approval') await scheduleApprovedChange(change);
+    } else if (status !== 'pending') {
+      await declinePlanChange(current, change, status, 'webhook');
+    }
+    return;
+  }
+
+  if (chargeId !== current.shopifySubscriptionId) {
+    logger.info('Billing: Ignoring update for inactive charge', { shop, subscriptionId: chargeId, status });
+    return;
+  }
+
+  if (status === current.planStatus) return;
+
+  if (status === 'cancelled' || status === 'declined' || status === 'expired') {
+    // A scheduled downgrade takes effect now that the current charge has ended
+    const open = await getOpenPlanChange(shop);
+    const scheduled = open?.status === 'scheduled' ? open : null;
+    if (scheduled && isPlanTier(scheduled.toTier) && isPaidPlan(scheduled.toTier)) {
+      await activateScheduledChange(current, scheduled, 'webhook');
+      return;
+    }
+    await moveToFreePlan(current, status, 'webhook', scheduled?.id);
+    return;
+  }
+
+  // frozen (store paused or unpaid) or back to active
+  await prisma.$transaction([
+    prisma.subscription.update({ where: { shop }, data: { planStatus: status } }),
+    recordStatusChange(current, {
+      shopifySubscriptionId: chargeId,
+      toTier: current.planTier,
+      toStatus: status,
+      source: 'webhook',
+    }),
+  ]);
+
+  logger.info('Billing: Subscription status changed', {
+    shop,
+    subscriptionId: chargeId,
+    from: current.planStatus,
+    to: status,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Charges
+// ---------------------------------------------------------------------------
+
+async function createCharge(
+  billing: BillingProvider,
+  shop: string,
+  selection: PlanSelection,
+  replacementBehavior: ReplacementBehavior
+): Promise<{ id: string; confirmationUrl: string }> {
+  const plan = PRICING_PLANS[selection.tier];
+  const test = await shouldUseTestCharges(shop);
+
+  const charge = await billing.createCharge({
+    shop,
+    name: plan.name,
+    price: planPrice(selection.tier, selection.interval),
+    currencyCode: BILLING_CURRENCY,
+    interval: selection.interval,
+    trialDays: plan.trialDays,
+    test,
+    returnUrl: getBillingReturnUrl(shop),
+    replacementBehavior,
+  });
+
+  logger.info('Billing: Charge created', {
+    shop,
+    tier: selection.tier,
+    interval: selection.interval,
+    subscriptionId: charge.id,
+    replacementBehavior,
+    test,
+    provider: billing.name,
+  });
+
+  return charge;
+}
+
+async function cancelCurrentCharge(billing: BillingProvider, subscription: Subscription): Promise<void> {
+  if (subscription.shopifySubscriptionId) {
+    await billing.cancelCharge(subscription.shop, subscription.shopifySubscriptionId);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Plan changes
+// ---------------------------------------------------------------------------
+
+function toInterval(change: PlanChange): BillingInterval {
+  return isBillingInterval(change.toInterval) ? change.toInterval : 'EVERY_30_DAYS';
+}
+
+function isApproved(shopifyStatus: string): boolean {
+  const status = shopifyStatus.toUpperCase();
+  return status === 'ACTIVE' || status === 'ACCEPTED';
+}
+
+/**
+ * End of the billing period that contains `now`
+ */
+function currentPeriodEnd(subscription: Subscription, now: Date): Date {
+  const length = billingPeriodMs(subscription.interval);
+  let end = subscription.billingPeriodEnd ?? new Date(subscription.billingPeriodStart.getTime() + length);
+  while (end <= now) {
+    end = new Date(end.getTime() + length);
+  }
+  return end;
+}
+
+async function findChangeForCharge(shop: string, shopifySubscriptionId: string) {
+  return prisma.planChange.findFirst({
+    where: { shop, shopifySubscriptionId, status: { in: OPEN_PLAN_CHANGE_STATUSES } },
+  });
+}
+
+async function schedulePlanChangeJob(change: PlanChange): Promise<void> {
+  await enqueueJob(
+    PLAN_CHANGE_JOB,
+    { planChangeId: change.id },
+    { shop: change.shop, runAt: change.effectiveAt ?? new Date() }
+  );
+
+  logger.info('Billing: Plan change scheduled', {
+    shop: change.shop,
+    planChangeId: change.id,
+    toTier: change.toTier,
+    effectiveAt: change.effectiveAt,
+  });
+}
+
+async function scheduleApprovedChange(change: PlanChange): Promise<void> {
+  const scheduled = await prisma.planChange.update({
+    where: { id: change.id },
+    data: { status: 'scheduled' },
+  });
+  await schedulePlanChangeJob(scheduled);
+}
+
+/**
+ * Cancel the charge behind an open change that is being dropped. A
+ * scheduled charge would otherwise replace the current one at period end,
+ * and a charge awaiting approval could still be approved from its
+ * confirmation URL.
+ */
+async function cancelPlanChangeCharge(billing: BillingProvider, change: PlanChange): Promise<void> {
+  if (!change.shopifySubscriptionId) return;
+
+  try {
+    await billing.cancelCharge(change.shop, change.shopifySubscriptionId);
+  } catch (error) {
+    // A scheduled charge must not be left to replace the current plan;
+    // confirmSubscription() refuses an unapproved one without an open change
+    if (change.status === 'scheduled') throw error;
+    logger.warn('Billing: Could not cancel unapproved charge', {
+      shop: change.shop,
+      subscriptionId: change.shopifySubscriptionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Close changes still open before a new one starts. Their charges are
+ * cancelled so they can't replace the current charge later.
+ */
+async function supersedeOpenPlanChanges(billing: BillingProvider, shop: string): Promise<void> {
+  const open = await prisma.planChange.findMany({
+    where: { shop, status: { in: OPEN_PLAN_CHANGE_STATUSES } },
+  });
+
+  for (const change of open) {
+    await cancelPlanChangeCharge(billing, change);
+  }
+
+  if (open.length > 0) {
+    await prisma.planChange.updateMany({
+      where: { id: { in: open.map((change) => change.id) } },
+      data: { status: 'superseded' },
+    });
+  }
+}
+
+async function declinePlanChange(
+  current: Subscription,
+  change: PlanChange,
+  status: SubscriptionStatus,
+  source: StatusChangeSource
+): Promise<void> {
+  await prisma.$transaction([
+    prisma.planChange.update({
+      where: { id: change.id },
+      data: { status: change.status === 'scheduled' ? 'revoked' : 'declined' },
+    }),
+    recordStatusChange(current, {
+      shopifySubscriptionId: change.shopifySubscriptionId,
+      toTier: current.planTier,
+      toStatus: current.planStatus,
+      source,
+      note: `${change.kind} charge ${status}`,
+    }),
+  ]);
+}
+
+/**
+ * Switch to the plan of a scheduled paid change, whose deferred charge
+ * Shopify starts billing at the end of the old period
+ */
+async function activateScheduledChange(
+  current: Subscription,
+  change: PlanChange,
+  source: StatusChangeSource
+): Promise<void> {
+  if (!isPlanTier(change.toTier) || !change.shopifySubscriptionId) return;
+
+  await activatePlan(
+    current,
+    { tier: change.toTier, interval: toInterval(change) },
+    source,
+    {
+      id: change.shopifySubscriptionId,
+      test: await shouldUseTestCharges(change.shop),
+      trialEndsAt: null,
+      currentPeriodEnd: null,
+    },
+    change.id
+  );
+}
+
+function markPlanChangeApplied(planChangeId: string | undefined) {
+  return planChangeId
+    ? [prisma.planChange.update({ where: { id: planChangeId }, data: { status: 'applied', appliedAt: new Date() } })]
+    : [];
+}
+
+// ---------------------------------------------------------------------------
+// State transitions - every change is written to SubscriptionStatusChange
+// ---------------------------------------------------------------------------
+
+function toSubscriptionStatus(shopifyStatus: string): SubscriptionStatus {
+  const status = shopifyStatus.toLowerCase();
+  // ACCEPTED (deprecated) means approved but not yet active
+  return (status === 'accepted' ? 'pending' : status) as SubscriptionStatus;
+}
+
+function recordStatusChange(
+  previous: Subscription,
+  change: {
+    shopifySubscriptionId: string | null;
+    toTier: string;
+    toStatus: string;
+    source: StatusChangeSource;
+    note?: string;
+  }
+) {
+  return prisma.subscriptionStatusChange.create({
+    data: {
+      shop: previous.shop,
+      shopifySubscriptionId: change.shopifySubscriptionId,
+      fromTier: previous.planTier,
+      toTier: change.toTier,
+      fromStatus: previous.planStatus,
+      toStatus: change.toStatus,
+      source: change.source,
+      note: change.note ?? null,
+    },
+  });
+}
+
+async function activatePlan(
+  previous: Subscription,
+  selection: PlanSelection,
+  source: StatusChangeSource,
+  charge: { id: string; test: boolean; trialEndsAt: Date | null; currentPeriodEnd: Date | null },
+  planChangeId?: string
+): Promise<void> {
+  const now = new Date();
+  const keepsUsagePeriod = isMidPeriodUpgrade(previous, selection, now);
+
+  await prisma.$transaction([
+    prisma.subscription.update({
+      where: { shop: previous.shop },
+      data: {
+        planTier: selection.tier,
+        planStatus: 'active',
+        shopifySubscriptionId: charge.id,
+        price: planPrice(selection.tier, selection.interval),
+        currencyCode: BILLING_CURRENCY,
+        interval: selection.interval,
+        test: charge.test,
+        trialEndsAt: charge.trialEndsAt,
+        // An upgrade within the period keeps counting against the same
+        // BilledOrder period, so the orders already used carry over
+        ...(keepsUsagePeriod ? {} : { billingPeriodStart: now, billingPeriodEnd: charge.currentPeriodEnd }),
+        activatedAt: now,
+        cancelledAt: null,
+      },
+    }),
+    ...markPlanChangeApplied(planChangeId),
+    recordStatusChange(previous, {
+      shopifySubscriptionId: charge.id,
+      toTier: selection.tier,
+      toStatus: 'active',
+      source,
+    }),
+  ]);
+
+  logger.info('Billing: Subscription activated', {
+    shop: previous.shop,
+    tier: selection.tier,
+    interval: selection.interval,
+    subscriptionId: charge.id,
+    source,
+  });
+}
+
+/**
+ * Whether a move to a higher tier on the same interval lands inside the
+ * usage period that is still running
+ */
+function isMidPeriodUpgrade(previous: Subscription, selection: PlanSelection, now: Date): boolean {
+  if (!isPlanTier(previous.planTier) || selection.interval !== previous.interval) return false;
+  if (comparePlanTiers(selection.tier, previous.planTier) <= 0) return false;
+  const end =
+    previous.billingPeriodEnd ??
+    new Date(previous.billingPeriodStart.getTime() + billingPeriodMs(previous.interval));
+  return now < end;
+}
+
+async function moveToFreePlan(
+  previous: Subscription,
+  reason: SubscriptionStatus,
+  source: StatusChangeSource,
+  planChangeId?: string
+): Promise<void> {
+  await prisma.$transaction([
+    prisma.subscription.update({
+      where: { shop: previous.shop },
+      data: {
+        planTier: FREE_PLAN_TIER,
+        planStatus: 'active',
+        shopifySubscriptionId: null,
+        price: 0,
+        interval: PRICING_PLANS[FREE_PLAN_TIER].interval,
+        test: false,
+        trialEndsAt: null,
+        billingPeriodStart: new Date(),
+        billingPeriodEnd: null,
+        cancelledAt: new Date(),
+      },
+    }),
+    ...markPlanChangeApplied(planChangeId),
+    recordStatusChange(previous, {
+      shopifySubscriptionId: previous.shopifySubscriptionId,
+      toTier: FREE_PLAN_TIER,
+      toStatus: 'active',
+      source,
+      note: `paid charge ${reason}`,
+    }),
+  ]);
+
+  logger.info('Billing: Moved to free plan', {
+    shop: previous.shop,
+    previousTier: previous.planTier,
+    subscriptionId: previous.shopifySubscriptionId,
+    reason,
+    source,
+  });
+}
@@ -0,0 +1,356 @@
+/**
+ * Customer Data Registry & GDPR Export
+ *
+ * Every Prisma model that stores data about a shop's customers registers
+ * itself here and declares how to find and how to redact its rows for a
+ * customer. The customers/data_request and customers/redact webhooks walk
+ * the registry, so adding a model never requires touching the webhook code.
+ *
+ * Usage:
+ *   registerCustomerDataModel({
+ *     name: 'Review',
+ *     find: (db, match) =>
+ *       db.review.findMany({ where: { shop: match.shop, customerId: match.customerId ?? undefined } }),
+ *     redact: async (db, match) => {
+ *       const { count } = await db.review.deleteMany({ where: { shop: match.shop, customerId: match.customerId ?? undefined } });
+ *       return { deleted: count, anonymized: 0 };
+ *     },
+ *   });
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '../db.server';
+import { logger } from './logger.server';
+import type { CustomersDataRequestPayload } from '../types/webhooks';
+
+// Transaction clients and the root client both satisfy this type
+export type CustomerDataClient = Prisma.TransactionClient;
+
+/**
+ * Identifies a customer within a shop. Ids are Shopify's numeric ids as strings.
+ */
+export interface CustomerMatch {
+  shop: string;
+  customerId: string | null;
+  email: string | null;
+  orderIds: string[];
+}
+
+export interface RedactionCount {
+  deleted: number;
+  anonymized: number;
+}
+
+export interface CustomerDataModel {
+  /** Model name, used as the section key in exports and redaction audits */
+  name: string;
+  /** Return every row of this model that belongs to the customer */
+  find: (db: CustomerDataClient, match: CustomerMatch) => Promise<Record<string, unknown>[]>;
+  /**
+   * Delete or anonymize the customer's rows. Runs inside the redaction
+   * transaction and must be safe to run again (redeliveries).
+   */
+  redact: (db: CustomerDataClient, match: CustomerMatch) => Promise<RedactionCount>;
+}
+
+export interface CustomerDataExport {
+  generatedAt: string;
+  shop: string;
+  customer: {
+    id: string | null;
+    email: string | null;
+  };
+  ordersRequested: string[];
+  records: Record<string, Record<string, unknown>[]>;
+}
+
+const customerDataModels = new Map<string, CustomerDataModel>();
+
+/**
+ * Register a model that holds customer data.
+ * Re-registering the same name replaces the previous entry (safe across HMR).
+ */
+export function registerCustomerDataModel(model: CustomerDataModel): void {
+  customerDataModels.set(model.name, model);
+}
+
+export function getCustomerDataModels(): CustomerDataModel[] {
+  return Array.from(customerDataModels.values());
+}
+
+/**
+ * Build a CustomerMatch from a GDPR webhook payload
+ */
+export function customerMatchFromPayload(
+  shop: string,
+  customer: { id?: number | null; email?: string | null } | undefined,
+  orderIds: number[] = []
+): CustomerMatch {
+  return {
+    shop,
+    customerId: customer?.id != null ? String(customer.id) : null,
+    email: customer?.email ? customer.email.toLowerCase() : null,
+    orderIds: orderIds.map(String),
+  };
+}
+
+/**
+ * Convert Prisma rows into plain JSON (Dates, BigInts and Decimals included)
+ */
+function toJsonSafe(rows: Record<string, unknown>[]): Record<string, unknown>[] {
+  return JSON.parse(
+    JSON.stringify(rows, (_key, value) => (typeof value === 'bigint' ? value.toString() : value))
+  );
+}
+
+/**
+ * Collect every registered model's rows for a customer
+ */
+export async function buildCustomerDataExport(
+  match: CustomerMatch,
+  db: CustomerDataClient = prisma
+): Promise<CustomerDataExport> {
+  const records: CustomerDataExport['records'] = {};
+
+  for (const model of getCustomerDataModels()) {
+    const rows = await model.find(db, match);
+    records[model.name] = toJsonSafe(rows);
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    shop: match.shop,
+    customer: { id: match.customerId, email: match.email },
+    ordersRequested: match.orderIds,
+    records,
+  };
+}
+
+function escapeCsv(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const str = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+/**
+ * Flatten an export into long-format CSV (model, record, field, value)
+ * so models with different columns fit in a single sheet
+ */
+export function customerDataExportToCsv(bundle: CustomerDataExport): string {
+  const lines = ['model,record,field,value'];
+
+  for (const [model, rows] of Object.entries(bundle.records)) {
+    rows.forEach((row, index) => {
+      for (const [field, value] of Object.entries(row)) {
+        lines.push([model, index + 1, field, value].map(escapeCsv).join(','));
+      }
+    });
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Persist an incoming customers/data_request webhook.
+ * Redeliveries of the same Shopify data request return the existing record.
+ */
+export async function createDataRequest(shop: string, payload: CustomersDataRequestPayload) {
+  const match = customerMatchFromPayload(shop, payload.customer, payload.orders_requested);
+  const dataRequestId = payload.data_request?.id != null ? String(payload.data_request.id) : null;
+
+  const data = {
+    shop,
+    dataRequestId,
+    customerId: match.customerId,
+    customerEmail: match.email,
+    ordersRequested: match.orderIds,
+  };
+
+  if (!dataRequestId) {
+    return prisma.dataRequest.create({ data });
+  }
+
+  // Unique on (shop, dataRequestId), so concurrent redeliveries share one row
+  return prisma.dataRequest.upsert({
+    where: { shop_dataRequestId: { shop, dataRequestId } },
+    update: {},
+    create: data,
+  });
+}
+
+/**
+ * Build the JSON and CSV export for a data request and store it on the record
+ */
+export async function processDataRequest(id: string) {
+  const request = await prisma.dataRequest.findUnique({ where: { id } });
+  if (!request) {
+    throw new Error(`DataRequest ${id} not found`);
+  }
+  if (request.status === 'completed') {
+    return request;
+  }
+
+  await prisma.dataRequest.update({ where: { id }, data: { status: 'processing', error: null } });
+
+  try {
+    const bundle = await buildCustomerDataExport({
+      shop: request.shop,
+      customerId: request.customerId,
+      email: request.customerEmail,
+      orderIds: request.ordersRequested,
+    });
+
+    const completed = await prisma.dataRequest.update({
+      where: { id },
+      data: {
+        status: 'completed',
+        exportJson: bundle as unknown as Prisma.InputJsonValue,
+        exportCsv: customerDataExportToCsv(bundle),
+        completedAt: new Date(),
+      },
+    });
+
+    logger.info('GDPR: Customer data export completed', {
+      shop: request.shop,
+      dataRequestId: id,
+      models: Object.keys(bundle.records).length,
+    });
+
+    return completed;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await prisma.dataRequest.update({ where: { id }, data: { status: 'failed', error: message } });
+    logger.error('GDPR: Customer data export failed', { shop: request.shop, dataRequestId: id, error: message });
+    throw error;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Registered models
+// Add a registration for every model that stores customer data.
+// ---------------------------------------------------------------------------
+
+// Previous data requests reference the customer by id and email.
+// Rows are kept (they prove the request was answered) but stripped of
+// anything identifying, including the stored export.
+function dataRequestWhere(match: CustomerMatch): Prisma.DataRequestWhereInput {
+  return {
+    shop: match.shop,
+    OR: [
+      ...(match.customerId ? [{ customerId: match.customerId }] : []),
+      ...(match.email ? [{ customerEmail: match.email }] : []),
+    ],
+  };
+}
+
+registerCustomerDataModel({
+  name: 'DataRequest',
+  find: (db, match) =>
+    db.dataRequest.findMany({
+      where: dataRequestWhere(match),
+      select: {
+        id: true,
+        dataRequestId: true,
+        customerId: true,
+        customerEmail: true,
+        status: true,
+        createdAt: true,
+        completedAt: true,
+      },
+    }),
+  redact: async (db, match) => {
+    const { count } = await db.dataRequest.updateMany({
+      where: dataRequestWhere(match),
+      data: {
+        customerId: null,
+        customerEmail: null,
+        exportJson: Prisma.DbNull,
+        exportCsv: null,
+      },
+    });
+    return { deleted: 0, anonymized: count };
+  },
+});
+
+// Stored webhook payloads (orders, customers, GDPR requests) can embed the
+// customer. Matching payloads are kept for the audit trail but emptied.
+// Payload emails keep Shopify's casing and Prisma's JSON filters can't
+// compare case-insensitively, so the rows are found with SQL.
+async function webhookEventWhere(
+  db: CustomerDataClient,
+  match: CustomerMatch
+): Promise<Prisma.WebhookEventWhereInput> {
+  const rows = await db.$queryRaw<{ id: string }[]>`
+    SELECT "id" FROM "WebhookEvent"
+    WHERE "shop" = ${match.shop}
+      AND (
+        "payload"->'customer'->>'id' = ${match.customerId}
+        OR lower("payload"->'customer'->>'email') = ${match.email}
+        OR lower("payload"->>'email') = ${match.email}
+      )
+  `;
+  return { shop: match.shop, id: { in: rows.map((row) => row.id) } };
+}
+
+registerCustomerDataModel({
+  name: 'WebhookEvent',
+  find: async (db, match) =>
+    db.webhookEvent.findMany({
+      where: await webhookEventWhere(db, match),
+      select: { id: true, topic: true, payload: true, receivedAt: true },
+    }),
+  redact: async (db, match) => {
+    const { count } = await db.webhookEvent.updateMany({
+      where: await webhookEventWhere(db, match),
+      data: { payload: { redacted: true } },
+    });
+    return { deleted: 0, anonymized: count };
+  },
+});
+
+// Orders synced from orders/* webhooks carry the customer's id, email and
+// name. Orders stay (they're the shop's sales records) with the customer
+// fields cleared; line items hold no customer data.
+function orderWhere(match: CustomerMatch): Prisma.OrderWhereInput {
+  return {
+    shop: match.shop,
+    OR: [
+      ...(match.customerId ? [{ customerId: `gid://shopify/Customer/${match.customerId}` }] : []),
+      ...(match.email ? [{ customerEmail: { equals: match.email, mode: 'insensitive' as const } }] : []),
+      ...(match.orderIds.length > 0
+        ? [{ shopifyId: { in: match.orderIds.map((id) => `gid://shopify/Order/${id}`) } }]
+        : []),
+    ],
+  };
+}
+
+registerCustomerDataModel({
+  name: 'Order',
+  find: (db, match) =>
+    db.order.findMany({
+      where: orderWhere(match),
+      select: {
+        shopifyId: true,
+        name: true,
+        total: true,
+        currency: true,
+        customerId: true,
+        customerEmail: true,
+        customerFirstName: true,
+        customerLastName: true,
+        processedAt: true,
+      },
+    }),
+  redact: async (db, match) => {
+    const { count } = await db.order.updateMany({
+      where: orderWhere(match),
+      data: {
+        customerId: null,
+        customerEmail: null,
+        customerFirstName: null,
+        customerLastName: null,
+      },
+    });
+    return { deleted: 0, anonymized: count };
+  },
+});
@@ -0,0 +1,98 @@
+/**
+ * GDPR Customer Redaction Engine
+ *
+ * Handles customers/redact by walking every model registered in
+ * customer-data.server.ts and deleting or anonymizing the customer's rows
+ * in a single transaction. Each request writes a RedactionAudit row that
+ * proves what was removed without keeping the customer's identifiers.
+ *
+ * Redeliveries and replays of the same webhook are detected by its webhook
+ * id and return the original audit instead of running again. A later
+ * redact for the same customer is a new webhook and runs again.
+ */
+
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from '../db.server';
+import { env } from './env.server';
+import { logger } from './logger.server';
+import {
+  customerMatchFromPayload,
+  getCustomerDataModels,
+  type RedactionCount,
+} from './customer-data.server';
+import type { CustomersRedactPayload } from '../types/webhooks';
+
+/**
+ * Keyed one-way hash for identifiers that must be provable but not
+ * readable. Keyed with a server secret so customer ids, emails and shop
+ * domains can't be recovered by hashing guesses.
+ */
+export function hashIdentifier(value: string): string {
+  return crypto.createHmac('sha256', env.identifierHashSecret).update(value.trim().toLowerCase()).digest('hex');
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+/**
+ * Redact a customer's data across all registered models.
+ * webhookId is the customers/redact delivery's X-Shopify-Webhook-Id.
+ */
+export async function redactCustomer(shop: string, payload: CustomersRedactPayload, webhookId: string) {
+  const match = customerMatchFromPayload(shop, payload.customer, payload.orders_to_redact);
+  const requestKey = webhookId;
+
+  const existing = await prisma.redactionAudit.findUnique({ where: { requestKey } });
+  if (existing) {
+    logger.info('GDPR: Customer redaction already completed, skipping', {
+      shop,
+      auditId: existing.id,
+    });
+    return existing;
+  }
+
+  try {
+    const audit = await prisma.$transaction(async (tx) => {
+      const summary: Record<string, RedactionCount> = {};
+      let totalDeleted = 0;
+      let totalAnonymized = 0;
+
+      for (const model of getCustomerDataModels()) {
+        const count = await model.redact(tx, match);
+        summary[model.name] = count;
+        totalDeleted += count.deleted;
+        totalAnonymized += count.anonymized;
+      }
+
+      return tx.redactionAudit.create({
+        data: {
+          shop,
+          requestKey,
+          customerIdHash: match.customerId ? hashIdentifier(match.customerId) : null,
+          customerEmailHash: match.email ? hashIdentifier(match.email) : null,
+          ordersRedacted: match.orderIds,
+          summary: summary as unknown as Prisma.InputJsonValue,
+          totalDeleted,
+          totalAnonymized,
+        },
+      });
+    });
+
+    logger.info('GDPR: Customer data redacted', {
+      shop,
+      auditId: audit.id,
+      deleted: audit.totalDeleted,
+      anonymized: audit.totalAnonymized,
+    });
+
+    return audit;
+  } catch (error) {
+    // A concurrent delivery of the same request won the race
+    if (isUniqueViolation(error)) {
+      return prisma.redactionAudit.findUniqueOrThrow({ where: { requestKey } });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Encrypted Session Storage
+ *
+ * Wraps the app's session storage (PrismaSessionStorage) so access tokens
+ * are encrypted before they're written and decrypted when read. Everything
+ * else about the session is stored as before. Keys and the stored format
+ * are in token-encryption.server.ts.
+ *
+ * Without SESSION_ENCRYPTION_KEYS tokens are stored as plaintext, as
+ * before. A session whose token can't be decrypted (its key version was
+ * removed) loads as missing, so the shop goes through token exchange again.
+ *
+ * Usage (shopify.server.ts):
+ *   sessionStorage: new EncryptedSessionStorage(new PrismaSessionStorage(prisma)),
+ */
+
+import { Session } from '@shopify/shopify-app-remix/server';
+import type { SessionStorage } from '@shopify/shopify-app-session-storage';
+import prisma from '../db.server';
+import { logger } from './logger.server';
+import {
+  currentKeyVersion,
+  decryptToken,
+  encryptToken,
+  isTokenEncryptionEnabled,
+} from './token-encryption.server';
+
+function withAccessToken(session: Session, accessToken: string | undefined): Session {
+  return new Session({ ...session.toObject(), accessToken });
+}
+
+export class EncryptedSessionStorage implements SessionStorage {
+  constructor(private readonly storage: SessionStorage & { isReady?: () => Promise<boolean> }) {}
+
+  async storeSession(session: Session): Promise<boolean> {
+    const accessToken = session.accessToken ? encryptToken(session.accessToken, session.id) : session.accessToken;
+    return this.storage.storeSession(withAccessToken(session, accessToken));
+  }
+
+  async loadSession(id: string): Promise<Session | undefined> {
+    const session = await this.storage.loadSession(id);
+    return session ? this.decrypt(session) : undefined;
+  }
+
+  async deleteSession(id: string): Promise<boolean> {
+    return this.storage.deleteSession(id);
+  }
+
+  async deleteSessions(ids: string[]): Promise<boolean> {
+    return this.storage.deleteSessions(ids);
+  }
+
+  async findSessionsByShop(shop: string): Promise<Session[]> {
+    const sessions = await this.storage.findSessionsByShop(shop);
+    return sessions.map((session) => this.decrypt(session)).filter((session): session is Session => !!session);
+  }
+
+  async isReady(): Promise<boolean> {
+    return this.storage.isReady ? this.storage.isReady() : true;
+  }
+
+  private decrypt(session: Session): Session | undefined {
+    if (!session.accessToken) return session;
+
+    try {
+      return withAccessToken(session, decryptToken(session.accessToken, session.id));
+    } catch (error) {
+      logger.error('Session token could not be decrypted', {
+        shop: session.shop,
+        sessionId: session.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+}
+
+export interface ReencryptResult {
+  keyVersion: string;
+  scanned: number;
+  reencrypted: number;
+  failed: number;
+  /** Rows still not on the current key (run again until 0) */
+  remaining: number;
+  /** Pass as `after` to continue past rows that failed */
+  lastId: string | null;
+}
+
+/**
+ * Re-encrypt up to `limit` stored tokens that are plaintext or on an older
+ * key version, in session id order after `after`. Rows changed since they
+ * were read (a token refreshed mid-run) are left alone - they were just
+ * written with the current key.
+ */
+export async function reencryptSessionTokens(
+  options: { limit?: number; after?: string } = {}
+): Promise<ReencryptResult> {
+  const keyVersion = currentKeyVersion();
+  if (!isTokenEncryptionEnabled() || !keyVersion) {
+    throw new Error('SESSION_ENCRYPTION_KEYS is not set');
+  }
+
+  const outdated = {
+    AND: [{ NOT: { accessToken: { startsWith: `enc:${keyVersion}:` } } }, { NOT: { accessToken: '' } }],
+  };
+  const rows = await prisma.session.findMany({
+    where: { ...outdated, ...(options.after ? { id: { gt: options.after } } : {}) },
+    select: { id: true, shop: true, accessToken: true },
+    orderBy: { id: 'asc' },
+    take: options.limit ?? 500,
+  });
+
+  let reencrypted = 0;
+  let failed = 0;
+
+  for (const row of rows) {
+    try {
+      const accessToken = encryptToken(decryptToken(row.accessToken, row.id), row.id);
+      const { count } = await prisma.session.updateMany({
+        where: { id: row.id, accessToken: row.accessToken },
+        data: { accessToken },
+      });
+      reencrypted += count;
+    } catch (error) {
+      failed++;
+      logger.error('Session token could not be re-encrypted', {
+        shop: row.shop,
+        sessionId: row.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const remaining = await prisma.session.count({ where: outdated });
+  logger.info('Session tokens re-encrypted', { keyVersion, scanned: rows.length, reencrypted, failed, remaining });
+
+  return { keyVersion, scanned: rows.length, reencrypted, failed, remaining, lastId: rows.at(-1)?.id ?? null };
+}
@@ -9,6 +9,8 @@
  *   validateEnv(); // Call at app startup
  */
 
+import { FEATURE_SCOPES, missingScopes, parseScopes } from './scope-features';
+
 interface EnvVar {
   key: string;
   required: boolean;
@@ -33,6 +35,11 @@ const ENV_VARS: EnvVar[] = [
     validation: (v) => v.length > 0,
     errorMessage: 'Must be a valid Shopify API secret'
   },
+  {
+    key: 'SHOPIFY_API_SECRET_PREVIOUS',
+    required: false,
+    description: 'Previous app secret(s), comma-separated, still accepted for HMAC checks while rotating'
+  },
   {
     key: 'SHOPIFY_APP_URL',
     required: true,
@@ -44,8 +51,8 @@ const ENV_VARS: EnvVar[] = [
     key: 'SCOPES',
     required: true,
     description: 'Shopify API scopes (comma-separated)',
-    validation: (v) => v.includes('read_orders') && v.includes('read_products'),
-    errorMessage: 'Must include at least read_orders,read_products'
+    validation: (v) => missingScopes(parseScopes(v), FEATURE_SCOPES).length === 0,
+    errorMessage: `Must include at least ${FEATURE_SCOPES.join(',')} (see utils/scope-features.ts)`
   },
 
   // Database Configuration (REQUIRED)
@@ -60,11 +67,26 @@ const ENV_VARS: EnvVar[] = [
   // Session/Security (REQUIRED)
   {
     key: 'SESSION_SECRET',
-    required: true,
-    description: 'Secret key for session encryption',
+    required: false,
+    description: 'Secret that signs the /superadmin operator cookie (the console stays disabled without it)',
+    validation: (v) => v.length >= 32,
+    errorMessage: 'Must be at least 32 characters long for security'
+  },
+
+  {
+    key: 'IDENTIFIER_HASH_SECRET',
+    required: false,
+    description: 'Key for hashing customer and shop identifiers in GDPR audit rows (defaults to SHOPIFY_API_SECRET; set it so rotating the app secret keeps hashes stable)',
     validation: (v) => v.length >= 32,
     errorMessage: 'Must be at least 32 characters long for security'
   },
+  {
+    key: 'SESSION_ENCRYPTION_KEYS',
+    required: false,
+    description: 'Keys for encrypting stored access tokens: version:secret pairs, comma-separated, current key first (recommended for production)',
+    validation: (v) => v.split(',').every((entry) => /^[A-Za-z0-9_-]+:.{32,}$/.test(entry.trim())),
+    errorMessage: 'Must be version:secret pairs (e.g. v1:<32+ random characters>), comma-separated'
+  },
 
   // Optional Services
   {
@@ -82,6 +104,13 @@ const ENV_VARS: EnvVar[] = [
     required: false,
     description: 'Secret for admin-only API endpoints (recommended for production)'
   },
+  {
+    key: 'SUPERADMIN_TOTP_SECRET',
+    required: false,
+    description: 'Base32 authenticator app secret; /superadmin sign-in then needs ADMIN_SECRET plus a code (optional)',
+    validation: (v) => /^[A-Z2-7]{16,}=*$/i.test(v.replace(/\s/g, '')),
+    errorMessage: 'Must be a base32 secret of at least 16 characters'
+  },
   {
     key: 'MIGRATION_SECRET',
     required: false,
@@ -110,6 +139,27 @@ const ENV_VARS: EnvVar[] = [
     validation: (v) => v === 'json' || v === 'text',
     errorMessage: 'Must be either "json" or "text"'
   },
+  {
+    key: 'SHOPIFY_BILLING_TEST',
+    required: false,
+    description: 'Create test charges (true/false, defaults to true outside production)',
+    validation: (v) => v === 'true' || v === 'false',
+    errorMessage: 'Must be either "true" or "false"'
+  },
+  {
+    key: 'SHOPIFY_ONLINE_TOKENS',
+    required: false,
+    description: 'Also request online (per-staff) access tokens so requests know which staff member made them (true/false)',
+    validation: (v) => v === 'true' || v === 'false',
+    errorMessage: 'Must be either "true" or "false"'
+  },
+  {
+    key: 'BILLING_PROVIDER',
+    required: false,
+    description: 'Billing API to use (shopify/fake, fake simulates charges in-process for local development)',
+    validation: (v) => v === 'shopify' || v === 'fake',
+    errorMessage: 'Must be either "shopify" or "fake"'
+  },
   {
     key: 'SHOP_CUSTOM_DOMAIN',
     required: false,
@@ -235,6 +285,7 @@ export const env = {
   // Shopify
   get shopifyApiKey() { return getRequiredEnv('SHOPIFY_API_KEY'); },
   get shopifyApiSecret() { return getRequiredEnv('SHOPIFY_API_SECRET'); },
+  get shopifyApiSecretPrevious() { return getOptionalEnv('SHOPIFY_API_SECRET_PREVIOUS'); },
   get shopifyAppUrl() { return getRequiredEnv('SHOPIFY_APP_URL'); },
   get scopes() { return getRequiredEnv('SCOPES'); },
 
@@ -243,8 +294,11 @@ export const env = {
 
   // Security
   get sessionSecret() { return getRequiredEnv('SESSION_SECRET'); },
+  get identifierHashSecret() { return getOptionalEnv('IDENTIFIER_HASH_SECRET') || this.shopifyApiSecret; },
+  get sessionEncryptionKeys() { return getOptionalEnv('SESSION_ENCRYPTION_KEYS'); },
   get cronSecret() { return getOptionalEnv('CRON_SECRET'); },
   get adminSecret() { return getOptionalEnv('ADMIN_SECRET'); },
+  get superadminTotpSecret() { return getOptionalEnv('SUPERADMIN_TOTP_SECRET'); },
   get migrationSecret() { return getOptionalEnv('MIGRATION_SECRET'); },
 
   // Services
@@ -255,6 +309,12 @@ export const env = {
   get debugMode() { return getOptionalEnv('DEBUG_MODE', 'false') === 'true'; },
   get logFormat() { return getOptionalEnv('LOG_FORMAT', 'text'); },
   get shopCustomDomain() { return getOptionalEnv('SHOP_CUSTOM_DOMAIN'); },
+  get billingTestMode() {
+    const value = getOptionalEnv('SHOPIFY_BILLING_TEST');
+    return value ? value === 'true' : this.nodeEnv !== 'production';
+  },
+  get useOnlineTokens() { return getOptionalEnv('SHOPIFY_ONLINE_TOKENS', 'false') === 'true'; },
+  get billingProvider() { return getOptionalEnv('BILLING_PROVIDER', 'shopify'); },
 
   // Derived values
   get isProduction() { return this.nodeEnv === 'production'; },
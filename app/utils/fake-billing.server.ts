@@ -0,0 +1,192 @@
+/**
+ * Fake Billing
+ *
+ * In-process stand-in for Shopify's billing API, used when
+ * BILLING_PROVIDER=fake. Charges live in memory (kept across dev server
+ * reloads, lost on restart) and behave like Shopify's:
+ * - createCharge() returns a confirmation URL for /app/billing/fake-confirm
+ *   instead of Shopify's approval page
+ * - Charges are only found for the shop that created them
+ * - approveFakeCharge() activates the charge (deferred charges become
+ *   ACCEPTED) and cancels the charge it replaces; declineFakeCharge()
+ *   declines it
+ * - Trials start on approval and currentPeriodEnd follows the interval
+ * - Every status change returns the app_subscriptions/update payloads
+ *   Shopify would send, for the caller to deliver to the webhook inbox
+ *   (see routes/app.billing.fake-confirm.tsx)
+ *
+ * Usage:
+ *   const payloads = approveFakeCharge(shop, chargeId);
+ *   for (const payload of payloads) {
+ *     await handleWebhookDelivery({ shop, topic: "APP_SUBSCRIPTIONS_UPDATE", webhookId, apiVersion, payload });
+ *   }
+ */
+
+import { logger } from './logger.server';
+import { billingPeriodMs } from './billing-plans';
+import type { BillingCharge, BillingProvider, CreateChargeInput } from './billing-provider.server';
+import type { AppSubscriptionsUpdatePayload } from '../types/webhooks';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface FakeCharge extends BillingCharge {
+  shop: string;
+  price: number;
+  currencyCode: string;
+  interval: CreateChargeInput['interval'];
+  replacementBehavior: CreateChargeInput['replacementBehavior'];
+  returnUrl: string;
+  updatedAt: string;
+}
+
+declare global {
+  var __fakeBillingCharges: Map<string, FakeCharge> | undefined;
+}
+
+// Survives hot reloads in development, like the Prisma client
+const charges = (global.__fakeBillingCharges ??= new Map<string, FakeCharge>());
+
+let nextChargeNumber = Date.now();
+
+function toGid(id: string): string {
+  return id.startsWith('gid://') ? id : `gid://shopify/AppSubscription/${id}`;
+}
+
+function findCharge(shop: string, id: string): FakeCharge | null {
+  const charge = charges.get(toGid(id));
+  return charge?.shop === shop ? charge : null;
+}
+
+function updatePayload(charge: FakeCharge): AppSubscriptionsUpdatePayload {
+  return {
+    app_subscription: {
+      admin_graphql_api_id: charge.id,
+      name: charge.name,
+      status: charge.status,
+      admin_graphql_api_shop_id: 'gid://shopify/Shop/1',
+      created_at: charge.createdAt,
+      updated_at: charge.updatedAt,
+      currency: charge.currencyCode,
+      price: charge.price.toFixed(2),
+      interval: charge.interval === 'ANNUAL' ? 'annual' : 'every_30_days',
+      capped_amount: null,
+    },
+  };
+}
+
+function setStatus(charge: FakeCharge, status: string): AppSubscriptionsUpdatePayload {
+  charge.status = status;
+  charge.updatedAt = new Date().toISOString();
+  logger.info('Fake billing: Charge status changed', { shop: charge.shop, subscriptionId: charge.id, status });
+  return updatePayload(charge);
+}
+
+export const fakeBillingProvider: BillingProvider = {
+  name: 'fake',
+
+  async createCharge(input) {
+    const number = String(nextChargeNumber++);
+    const now = new Date().toISOString();
+    const charge: FakeCharge = {
+      id: toGid(number),
+      name: input.name,
+      status: 'PENDING',
+      test: input.test,
+      trialDays: input.trialDays,
+      createdAt: now,
+      updatedAt: now,
+      currentPeriodEnd: null,
+      shop: input.shop,
+      price: input.price,
+      currencyCode: input.currencyCode,
+      interval: input.interval,
+      replacementBehavior: input.replacementBehavior,
+      returnUrl: input.returnUrl,
+    };
+    charges.set(charge.id, charge);
+
+    const query = new URLSearchParams({ charge_id: number });
+    const confirmationUrl = `${input.returnUrl.replace(/\/confirm$/, '/fake-confirm')}?${query}`;
+
+    return { id: charge.id, confirmationUrl };
+  },
+
+  async getCharge(shop, id) {
+    const charge = findCharge(shop, id);
+    if (!charge) return null;
+    const { id: chargeId, name, status, test, trialDays, createdAt, currentPeriodEnd } = charge;
+    return { id: chargeId, name, status, test, trialDays, createdAt, currentPeriodEnd };
+  },
+
+  async cancelCharge(shop, id) {
+    const charge = charges.get(toGid(id));
+    if (charge && charge.shop !== shop) {
+      throw new Error(`Subscription ${id} not found`);
+    }
+    if (!charge) {
+      // Created before the dev server restarted - nothing left to cancel
+      logger.warn('Fake billing: Cancelling unknown charge', { shop, subscriptionId: id });
+      return;
+    }
+    setStatus(charge, 'CANCELLED');
+  },
+};
+
+/**
+ * A shop's stored fake charge, including its pricing
+ */
+export function getFakeCharge(shop: string, id: string): FakeCharge | null {
+  return findCharge(shop, id);
+}
+
+/**
+ * Approve a pending charge as the merchant would on Shopify's page.
+ * Returns the webhook payloads Shopify would send (the new charge, then
+ * any charge it replaced).
+ */
+export function approveFakeCharge(shop: string, id: string): AppSubscriptionsUpdatePayload[] {
+  const charge = findCharge(shop, id);
+  if (!charge || charge.status !== 'PENDING') return [];
+
+  const now = Date.now();
+  const trialMs = charge.trialDays * DAY_MS;
+  charge.currentPeriodEnd = new Date(now + trialMs + billingPeriodMs(charge.interval)).toISOString();
+
+  // Deferred charges wait for the current charge's period to end
+  if (charge.replacementBehavior === 'APPLY_ON_NEXT_BILLING_CYCLE') {
+    return [setStatus(charge, 'ACCEPTED')];
+  }
+
+  const payloads = [setStatus(charge, 'ACTIVE')];
+  for (const other of charges.values()) {
+    if (other.shop === charge.shop && other.id !== charge.id && other.status === 'ACTIVE') {
+      payloads.push(setStatus(other, 'CANCELLED'));
+    }
+  }
+  return payloads;
+}
+
+/**
+ * Decline a pending charge
+ */
+export function declineFakeCharge(shop: string, id: string): AppSubscriptionsUpdatePayload[] {
+  const charge = findCharge(shop, id);
+  if (!charge || charge.status !== 'PENDING') return [];
+  return [setStatus(charge, 'DECLINED')];
+}
+
+/**
+ * Change a charge's status as if it happened in the Shopify admin
+ * (e.g. FROZEN for an unpaid store, CANCELLED on uninstall)
+ */
+export function setFakeChargeStatus(id: string, status: string): AppSubscriptionsUpdatePayload[] {
+  const charge = charges.get(toGid(id));
+  return charge ? [setStatus(charge, status.toUpperCase())] : [];
+}
+
+/**
+ * Forget every fake charge (between test runs)
+ */
+export function resetFakeBilling(): void {
+  charges.clear();
+}
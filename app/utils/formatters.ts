@@ -17,3 +17,8 @@ export function formatMoney(amount: number, currencyCode = 'USD') {
     currency: currencyCode,
   }).format(numericAmount);
 }
+
+export function formatDateTime(value: string | Date | null | undefined) {
+  if (!value) return '—';
+  return new Date(value).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+}
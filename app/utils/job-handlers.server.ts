@@ -0,0 +1,32 @@
+/**
+ * Background Job Handlers
+ *
+ * Maps each job type to the function that runs it. Passed to drainJobs()
+ * by the /api/cron/jobs route. Handlers should be idempotent: a job can
+ * run more than once if a worker dies before recording completion.
+ *
+ * deadJobHandlers run when a job type's last attempt fails or times out.
+ */
+
+import type { JobHandlers } from './job-queue.server';
+import { failWebhookEvent, processWebhookEvent, WEBHOOK_PROCESS_JOB } from './webhook-inbox.server';
+import { applyPlanChange, PLAN_CHANGE_JOB } from './billing.server';
+
+export const jobHandlers: JobHandlers = {
+  [WEBHOOK_PROCESS_JOB]: async (payload, job) => {
+    const { webhookEventId } = payload as { webhookEventId: string };
+    // Retries may find the event stuck in "processing" from a crashed attempt
+    await processWebhookEvent(webhookEventId, { reclaim: job.attempts > 1 });
+  },
+  [PLAN_CHANGE_JOB]: async (payload) => {
+    const { planChangeId } = payload as { planChangeId: string };
+    await applyPlanChange(planChangeId);
+  },
+};
+
+export const deadJobHandlers: JobHandlers = {
+  [WEBHOOK_PROCESS_JOB]: async (payload, job) => {
+    const { webhookEventId } = payload as { webhookEventId: string };
+    await failWebhookEvent(webhookEventId, job.lastError ?? 'Job moved to dead-letter state');
+  },
+};
@@ -0,0 +1,244 @@
+/**
+ * Postgres-Backed Job Queue
+ *
+ * Moves slow or retryable work out of the request so webhooks and actions
+ * can respond immediately. Jobs live in the Job table and are processed by
+ * the cron-triggered /api/cron/jobs route.
+ *
+ * - Claiming uses SELECT ... FOR UPDATE SKIP LOCKED, so concurrent drains
+ *   never pick up the same job
+ * - Failures are retried with exponential backoff up to maxAttempts, then
+ *   the job is moved to the "dead" state for inspection
+ * - Jobs locked by a worker that died (function timeout) are reclaimed
+ *   after LOCK_TIMEOUT_MS, or moved to "dead" if that was their last attempt
+ * - deadHandlers run once a job of their type is moved to "dead", to release
+ *   whatever the job was holding (e.g. a webhook event left in "processing")
+ *
+ * Usage:
+ *   await enqueueJob('webhook.process', { webhookEventId }, { shop });
+ *   await drainJobs(jobHandlers, { deadHandlers: deadJobHandlers });
+ */
+
+import crypto from 'crypto';
+import type { Job, Prisma } from '@prisma/client';
+import prisma from '../db.server';
+import { logger } from './logger.server';
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'dead';
+
+export type JobHandler = (payload: Prisma.JsonValue, job: Job) => Promise<void>;
+
+export type JobHandlers = Record<string, JobHandler>;
+
+const BACKOFF_BASE_MS = 30 * 1000; // 30s, 1m, 2m, 4m...
+const BACKOFF_MAX_MS = 60 * 60 * 1000; // capped at 1 hour
+const LOCK_TIMEOUT_MS = 5 * 60 * 1000; // longer than the serverless function timeout
+
+interface EnqueueOptions {
+  shop?: string;
+  runAt?: Date;
+  maxAttempts?: number;
+  /** Pass a transaction client to enqueue atomically with other writes */
+  db?: Prisma.TransactionClient;
+}
+
+/**
+ * Add a job to the queue
+ */
+export async function enqueueJob(
+  type: string,
+  payload: Prisma.InputJsonValue,
+  options: EnqueueOptions = {}
+) {
+  const db = options.db ?? prisma;
+
+  return db.job.create({
+    data: {
+      type,
+      payload,
+      shop: options.shop,
+      runAt: options.runAt ?? new Date(),
+      ...(options.maxAttempts ? { maxAttempts: options.maxAttempts } : {}),
+    },
+  });
+}
+
+/**
+ * Delay before the next attempt, doubling each time
+ */
+export function backoffDelay(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_MS);
+}
+
+/**
+ * Atomically claim up to `limit` due jobs for this worker
+ */
+export async function claimJobs(limit: number, workerId: string): Promise<Job[]> {
+  const staleLockBefore = new Date(Date.now() - LOCK_TIMEOUT_MS);
+
+  return prisma.$queryRaw<Job[]>`
+    UPDATE "Job"
+    SET "status" = 'running',
+        "lockedAt" = NOW(),
+        "lockedBy" = ${workerId},
+        "attempts" = "attempts" + 1,
+        "updatedAt" = NOW()
+    WHERE "id" IN (
+      SELECT "id" FROM "Job"
+      WHERE ("status" = 'pending' AND "runAt" <= NOW())
+         OR ("status" = 'running' AND "lockedAt" < ${staleLockBefore} AND "attempts" < "maxAttempts")
+      ORDER BY "runAt" ASC
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+}
+
+/**
+ * Run the dead handler for a job that was just moved to the dead state.
+ * Its errors are logged, not thrown: the job is already dead either way.
+ */
+async function runDeadHandler(job: Job, deadHandlers: JobHandlers): Promise<void> {
+  const handler = deadHandlers[job.type];
+  if (!handler) return;
+
+  try {
+    await handler(job.payload, job);
+  } catch (error) {
+    logger.error('Dead job handler failed', {
+      jobId: job.id,
+      type: job.type,
+      shop: job.shop ?? undefined,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Move jobs whose last attempt never finished (the worker timed out or
+ * crashed mid-run) to the dead state, so they aren't reclaimed forever
+ */
+async function failTimedOutJobs(deadHandlers: JobHandlers): Promise<number> {
+  const staleLockBefore = new Date(Date.now() - LOCK_TIMEOUT_MS);
+
+  const jobs = await prisma.$queryRaw<Job[]>`
+    UPDATE "Job"
+    SET "status" = 'dead',
+        "lockedAt" = NULL,
+        "lockedBy" = NULL,
+        "lastError" = 'Timed out: the worker stopped before the last attempt finished',
+        "updatedAt" = NOW()
+    WHERE "status" = 'running'
+      AND "lockedAt" < ${staleLockBefore}
+      AND "attempts" >= "maxAttempts"
+    RETURNING *
+  `;
+
+  if (jobs.length > 0) {
+    logger.error('Timed out jobs moved to dead-letter state', { count: jobs.length });
+  }
+  for (const job of jobs) {
+    await runDeadHandler(job, deadHandlers);
+  }
+  return jobs.length;
+}
+
+/**
+ * Run a claimed job and record the outcome.
+ * Uses updateMany so a job deleted while running (e.g. by a shop purge) is not an error.
+ */
+async function runJob(job: Job, handlers: JobHandlers, deadHandlers: JobHandlers): Promise<JobStatus> {
+  const handler = handlers[job.type];
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job type ${job.type}`);
+    }
+
+    await handler(job.payload, job);
+
+    await prisma.job.updateMany({
+      where: { id: job.id },
+      data: { status: 'completed', completedAt: new Date(), lockedAt: null, lockedBy: null, lastError: null },
+    });
+    return 'completed';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const dead = job.attempts >= job.maxAttempts;
+
+    await prisma.job.updateMany({
+      where: { id: job.id },
+      data: {
+        status: dead ? 'dead' : 'pending',
+        runAt: dead ? job.runAt : new Date(Date.now() + backoffDelay(job.attempts)),
+        lockedAt: null,
+        lockedBy: null,
+        lastError: message,
+      },
+    });
+
+    const log = dead ? logger.error : logger.warn;
+    log(dead ? 'Job moved to dead-letter state' : 'Job failed, will retry', {
+      jobId: job.id,
+      type: job.type,
+      shop: job.shop ?? undefined,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      error: message,
+    });
+
+    if (dead) await runDeadHandler({ ...job, lastError: message }, deadHandlers);
+    return dead ? 'dead' : 'pending';
+  }
+}
+
+export interface DrainResult {
+  claimed: number;
+  completed: number;
+  retried: number;
+  dead: number;
+}
+
+/**
+ * Process due jobs until the queue is empty or the time budget runs out
+ */
+export async function drainJobs(
+  handlers: JobHandlers,
+  options: { batchSize?: number; timeBudgetMs?: number; deadHandlers?: JobHandlers } = {}
+): Promise<DrainResult> {
+  const batchSize = options.batchSize ?? 10;
+  const deadHandlers = options.deadHandlers ?? {};
+  const deadline = Date.now() + (options.timeBudgetMs ?? 20 * 1000);
+  const workerId = crypto.randomUUID();
+  const result: DrainResult = { claimed: 0, completed: 0, retried: 0, dead: await failTimedOutJobs(deadHandlers) };
+
+  while (Date.now() < deadline) {
+    const jobs = await claimJobs(batchSize, workerId);
+    if (jobs.length === 0) break;
+
+    result.claimed += jobs.length;
+
+    for (const job of jobs) {
+      const status = await runJob(job, handlers, deadHandlers);
+      if (status === 'completed') result.completed++;
+      else if (status === 'dead') result.dead++;
+      else result.retried++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Delete completed jobs older than the retention window
+ */
+export async function pruneCompletedJobs(olderThanDays = 7): Promise<number> {
+  const { count } = await prisma.job.deleteMany({
+    where: {
+      status: 'completed',
+      completedAt: { lt: new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000) },
+    },
+  });
+  return count;
+}
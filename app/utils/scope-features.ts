@@ -0,0 +1,56 @@
+/**
+ * Scope Features
+ *
+ * Which access scopes each app feature needs. Safe to import from both
+ * client and server code (disable a feature's UI, skip its server work).
+ *
+ * A write_ scope includes its read_ scope, as it does in Shopify, so a
+ * session granted write_products satisfies read_products.
+ *
+ * When you add a scope to SCOPES and shopify.app.toml, add the features
+ * that need it here so they turn off cleanly for shops that haven't
+ * approved it yet (see scopes.server.ts).
+ */
+
+import type { ScopedFeature } from '../types/session';
+
+export const SCOPE_FEATURES: Record<ScopedFeature, { label: string; description: string; scopes: string[] }> = {
+  product_sync: {
+    label: 'Product sync',
+    description: 'Keeps your catalog in step with Shopify',
+    scopes: ['read_products'],
+  },
+  order_sync: {
+    label: 'Order sync and usage tracking',
+    description: 'Records orders and counts them toward your plan',
+    scopes: ['read_orders'],
+  },
+};
+
+export const SCOPED_FEATURES = Object.keys(SCOPE_FEATURES) as ScopedFeature[];
+
+/** Scopes every feature needs - SCOPES must include all of them */
+export const FEATURE_SCOPES = [...new Set(SCOPED_FEATURES.flatMap((feature) => SCOPE_FEATURES[feature].scopes))];
+
+/**
+ * Split a comma-separated scope string (Session.scope, SCOPES)
+ */
+export function parseScopes(value: string | null | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((scope) => scope.trim())
+    .filter(Boolean);
+}
+
+export function hasScope(granted: string[], scope: string): boolean {
+  if (granted.includes(scope)) return true;
+  return scope.startsWith('read_') && granted.includes(`write_${scope.slice('read_'.length)}`);
+}
+
+export function missingScopes(granted: string[], required: string[]): string[] {
+  return required.filter((scope) => !hasScope(granted, scope));
+}
+
+export function isFeatureAvailable(granted: string[], feature: ScopedFeature): boolean {
+  return missingScopes(granted, SCOPE_FEATURES[feature].scopes).length === 0;
+}
@@ -0,0 +1,57 @@
+/**
+ * Scope Drift
+ *
+ * Compares the scopes on a shop's stored session with the ones the app is
+ * configured with (SCOPES). They drift apart when scopes are added to
+ * shopify.app.toml after a shop installed: Shopify keeps the old grant
+ * until the merchant approves the new scopes.
+ *
+ * The app layout shows a banner with the missing scopes and a button that
+ * starts Shopify's managed re-consent (/app/api/scopes-request). Until
+ * then, features that need the missing scopes (scope-features.ts) are
+ * turned off instead of failing with GraphQL access errors: the UI via
+ * useScopeStatus(), and server work (webhook handlers, jobs) via
+ * isShopFeatureEnabled().
+ *
+ * Usage (in a webhook handler or job):
+ *   if (!(await isShopFeatureEnabled(shop, 'order_sync'))) return;
+ */
+
+import prisma from '../db.server';
+import type { ScopedFeature, ScopeStatus } from '../types/session';
+import { env } from './env.server';
+import { logger } from './logger.server';
+import { SCOPED_FEATURES, isFeatureAvailable, missingScopes, parseScopes } from './scope-features';
+
+export function configuredScopes(): string[] {
+  return parseScopes(env.scopes);
+}
+
+export function getScopeStatus(grantedScope: string | null | undefined): ScopeStatus {
+  const required = configuredScopes();
+  const granted = parseScopes(grantedScope);
+
+  return {
+    required,
+    granted,
+    missing: missingScopes(granted, required),
+    unavailableFeatures: SCOPED_FEATURES.filter((feature) => !isFeatureAvailable(granted, feature)),
+  };
+}
+
+/**
+ * Whether the shop's offline grant covers the feature's scopes. False when
+ * the shop has no offline session (uninstalled), as nothing was granted.
+ */
+export async function isShopFeatureEnabled(shop: string, feature: ScopedFeature): Promise<boolean> {
+  const session = await prisma.session.findFirst({
+    where: { shop, isOnline: false },
+    select: { scope: true },
+  });
+
+  const enabled = isFeatureAvailable(parseScopes(session?.scope), feature);
+  if (!enabled) {
+    logger.info('Skipping work for a feature the shop has not granted scopes for', { shop, feature });
+  }
+  return enabled;
+}
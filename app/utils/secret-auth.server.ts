@@ -0,0 +1,42 @@
+/**
+ * Shared-Secret Endpoint Authentication
+ *
+ * Protects internal endpoints (admin tools, cron jobs, migrations) that are
+ * called with `Authorization: Bearer <secret>` instead of a Shopify session.
+ *
+ * Usage:
+ *   requireBearerSecret(request, env.adminSecret, 'ADMIN_SECRET');
+ */
+
+import crypto from 'crypto';
+import { json } from '@remix-run/node';
+
+/**
+ * Constant-time string comparison
+ */
+export function safeCompare(a: string, b: string): boolean {
+  // Hash first so inputs of different lengths can still be compared in constant time
+  const digestA = crypto.createHash('sha256').update(a).digest();
+  const digestB = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(digestA, digestB);
+}
+
+/**
+ * Throw a 401 JSON response unless the request carries the expected bearer secret.
+ * An unset secret always rejects, so endpoints are closed by default.
+ */
+export function requireBearerSecret(request: Request, secret: string, name: string): void {
+  if (!secret) {
+    throw json(
+      { ok: false, error: 'Endpoint disabled', message: `${name} is not configured` },
+      { status: 401 }
+    );
+  }
+
+  const header = request.headers.get('authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+
+  if (!token || !safeCompare(token, secret)) {
+    throw json({ ok: false, error: 'Unauthorized' }, { status: 401 });
+  }
+}
@@ -1,56 +1,94 @@
 /**
  * Session refresh utility for better UX when sessions expire
+ *
+ * Headless: SessionManager polls /app/api/session-check and keeps a
+ * snapshot of the session state that UI code subscribes to (see
+ * SessionStatusProvider). It never touches the DOM or reloads the page.
+ *
+ * When the session is about to expire, or a check returns 401, it first
+ * refreshes silently: a fresh session token from getSessionToken (App
+ * Bridge idToken()) is exchanged at /app/api/session-refresh. The state
+ * only becomes "expiring" or "expired" if that refresh fails.
  */
 
+import type { SessionStatusResponse } from '../types/session';
+
 export interface SessionRefreshOptions {
   enabled: boolean;
   checkInterval: number; // milliseconds
   warningThreshold: number; // minutes before expiry to show warning
+  /** Fresh session token for silent refreshes (App Bridge idToken()) */
+  getSessionToken?: () => Promise<string>;
 }
 
+export type SessionState = 'active' | 'refreshing' | 'expiring' | 'expired';
+
+export interface SessionSnapshot {
+  state: SessionState;
+  /** Seconds until expiry at the last check; null if the token doesn't expire */
+  expiresIn: number | null;
+  checkedAt: number | null;
+}
+
+export type SessionListener = (snapshot: SessionSnapshot) => void;
+
+const DEFAULT_OPTIONS: SessionRefreshOptions = {
+  enabled: true,
+  checkInterval: 5 * 60 * 1000, // 5 minutes
+  warningThreshold: 10 // 10 minutes before expiry
+};
+
 export class SessionManager {
   private static instance: SessionManager;
-  private checkInterval: NodeJS.Timeout | null = null;
+  private checkInterval: ReturnType<typeof setInterval> | null = null;
   private options: SessionRefreshOptions;
-  
-  constructor(options: SessionRefreshOptions) {
-    this.options = options;
+  private snapshot: SessionSnapshot = { state: 'active', expiresIn: null, checkedAt: null };
+  private listeners = new Set<SessionListener>();
+
+  constructor(options: Partial<SessionRefreshOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
   }
-  
-  static getInstance(options?: SessionRefreshOptions): SessionManager {
+
+  static getInstance(options?: Partial<SessionRefreshOptions>): SessionManager {
     if (!SessionManager.instance) {
-      SessionManager.instance = new SessionManager(options || {
-        enabled: true,
-        checkInterval: 5 * 60 * 1000, // 5 minutes
-        warningThreshold: 10 // 10 minutes before expiry
-      });
+      SessionManager.instance = new SessionManager(options);
     }
     return SessionManager.instance;
   }
-  
+
   start() {
     if (!this.options.enabled || this.checkInterval) return;
-    
+
     this.checkInterval = setInterval(() => {
       this.checkSession();
     }, this.options.checkInterval);
-    
+
     // Also check on page visibility change
-    document.addEventListener('visibilitychange', () => {
-      if (!document.hidden) {
-        this.checkSession();
-      }
-    });
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
   }
-  
+
   stop() {
     if (this.checkInterval) {
       clearInterval(this.checkInterval);
       this.checkInterval = null;
     }
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
   }
-  
-  private async checkSession() {
+
+  /**
+   * Listen for state changes. Returns an unsubscribe function, so it can
+   * be passed straight to React's useSyncExternalStore.
+   */
+  subscribe = (listener: SessionListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): SessionSnapshot => this.snapshot;
+
+  async checkSession(): Promise<void> {
     try {
       const response = await fetch('/app/api/session-check', {
         method: 'GET',
@@ -58,14 +96,17 @@ export class SessionManager {
           'Content-Type': 'application/json',
         },
       });
-      
+
       if (response.status === 401) {
-        // Session expired - show user-friendly message and redirect
-        this.handleSessionExpiry();
+        // Session expired - try a silent refresh before telling the user
+        await this.refresh('expired');
       } else if (response.ok) {
-        const data = await response.json();
-        if (data.expiresIn && data.expiresIn < this.options.warningThreshold * 60) {
-          this.showSessionWarning(data.expiresIn);
+        const data: SessionStatusResponse = await response.json();
+        // expiresIn is null for offline tokens, which don't expire
+        if (data.expiresIn !== null && data.expiresIn < this.options.warningThreshold * 60) {
+          await this.refresh('expiring');
+        } else {
+          this.setSnapshot({ state: 'active', expiresIn: data.expiresIn, checkedAt: Date.now() });
         }
       }
     } catch (error) {
@@ -74,90 +115,44 @@ export class SessionManager {
       }
     }
   }
-  
-  private handleSessionExpiry() {
-    // Remove any existing warnings
-    this.removeSessionWarning();
-    
-    // Show user-friendly session expired message
-    const banner = document.createElement('div');
-    banner.id = 'session-expired-banner';
-    banner.style.cssText = `
-      position: fixed;
-      top: 0;
-      left: 0;
-      right: 0;
-      z-index: 10000;
-      background: #ff6b6b;
-      color: white;
-      padding: 12px 20px;
-      text-align: center;
-      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-    `;
-    banner.innerHTML = `
-      <strong>Session Expired</strong> - Your session has expired. 
-      <button onclick="window.location.reload()" style="
-        background: rgba(255,255,255,0.2);
-        border: 1px solid rgba(255,255,255,0.3);
-        color: white;
-        padding: 4px 12px;
-        margin-left: 12px;
-        border-radius: 4px;
-        cursor: pointer;
-      ">Refresh to Continue</button>
-    `;
-    document.body.appendChild(banner);
-    
-    // Auto-refresh after 3 seconds if user doesn't click
-    setTimeout(() => {
-      window.location.reload();
-    }, 3000);
-  }
-  
-  private showSessionWarning(expiresInSeconds: number) {
-    // Remove existing warning
-    this.removeSessionWarning();
-    
-    const minutes = Math.ceil(expiresInSeconds / 60);
-    const banner = document.createElement('div');
-    banner.id = 'session-warning-banner';
-    banner.style.cssText = `
-      position: fixed;
-      top: 0;
-      left: 0;
-      right: 0;
-      z-index: 9999;
-      background: #ffa726;
-      color: white;
-      padding: 8px 20px;
-      text-align: center;
-      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-      font-size: 14px;
-    `;
-    banner.innerHTML = `
-      <strong>Session Warning</strong> - Your session will expire in ${minutes} minute(s). 
-      <button onclick="this.parentElement.remove(); fetch('/app/api/session-refresh', {method: 'POST'})" style="
-        background: rgba(255,255,255,0.2);
-        border: 1px solid rgba(255,255,255,0.3);
-        color: white;
-        padding: 2px 8px;
-        margin-left: 8px;
-        border-radius: 3px;
-        cursor: pointer;
-        font-size: 12px;
-      ">Extend Session</button>
-    `;
-    document.body.appendChild(banner);
-  }
-  
-  private removeSessionWarning() {
-    const existing = document.getElementById('session-warning-banner');
-    if (existing) existing.remove();
+
+  /**
+   * Exchange a fresh session token for a new access token.
+   * On failure the state becomes `onFailure` and false is returned.
+   */
+  async refresh(onFailure: 'expiring' | 'expired' = 'expired'): Promise<boolean> {
+    this.setSnapshot({ ...this.snapshot, state: 'refreshing' });
+
+    try {
+      const token = this.options.getSessionToken ? await this.options.getSessionToken() : null;
+      const response = await fetch('/app/api/session-refresh', {
+        method: 'POST',
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+
+      if (response.ok) {
+        const data: SessionStatusResponse = await response.json();
+        this.setSnapshot({ state: 'active', expiresIn: data.expiresIn, checkedAt: Date.now() });
+        return true;
+      }
+    } catch (error) {
+      if (typeof process !== 'undefined' && process.env.DEBUG_MODE === 'true') {
+        console.warn('Session refresh failed:', error);
+      }
+    }
+
+    this.setSnapshot({ ...this.snapshot, state: onFailure, checkedAt: Date.now() });
+    return false;
   }
-}
 
-// Auto-start session manager when imported
-if (typeof window !== 'undefined') {
-  const manager = SessionManager.getInstance();
-  manager.start();
+  private handleVisibilityChange = () => {
+    if (!document.hidden) {
+      this.checkSession();
+    }
+  };
+
+  private setSnapshot(snapshot: SessionSnapshot) {
+    this.snapshot = snapshot;
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
 }
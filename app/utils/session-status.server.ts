@@ -0,0 +1,105 @@
+/**
+ * Session Status
+ *
+ * Backs /app/api/session-check and /app/api/session-refresh, which the
+ * client session utilities (session-refresh.ts, auth-helper.ts) call.
+ *
+ * refreshSession() forces a new token exchange: the request's session
+ * token is exchanged for fresh access tokens, which are stored over the old
+ * sessions. The old sessions stay in place until the exchange succeeds, so
+ * a failed refresh never leaves webhooks and jobs without an offline token.
+ *
+ * Usage (in a loader):
+ *   const { session } = await authenticate.admin(request);
+ *   return json({ ok: true, ...getSessionStatus(session) });
+ */
+
+import { RequestedTokenType, shopifyApi } from '@shopify/shopify-api';
+import type { Session } from '@shopify/shopify-app-remix/server';
+import { apiVersion, authenticate, sessionStorage } from '../shopify.server';
+import { env } from './env.server';
+import { logger } from './logger.server';
+import type { SessionStatus } from '../types/session';
+
+export function getSessionStatus(session: Session, now: Date = new Date()): SessionStatus {
+  const expiresIn = session.expires
+    ? Math.max(0, Math.floor((session.expires.getTime() - now.getTime()) / 1000))
+    : null;
+
+  return {
+    shop: session.shop,
+    scopes: session.scope ? session.scope.split(',').filter(Boolean) : [],
+    isOnline: session.isOnline,
+    expiresIn,
+    expiresAt: session.expires ? session.expires.toISOString() : null,
+  };
+}
+
+// shopifyApp() doesn't expose its token exchange, so refreshSession()
+// uses a second client built from the same configuration
+let tokenExchangeApi: ReturnType<typeof shopifyApi> | undefined;
+
+function getTokenExchangeApi() {
+  tokenExchangeApi ??= shopifyApi({
+    apiKey: env.shopifyApiKey,
+    apiSecretKey: env.shopifyApiSecret,
+    apiVersion,
+    scopes: env.scopes.split(','),
+    hostName: new URL(env.shopifyAppUrl).host,
+    isEmbeddedApp: true,
+    ...(env.shopCustomDomain ? { customShopDomains: [env.shopCustomDomain] } : {}),
+  });
+  return tokenExchangeApi;
+}
+
+/**
+ * The raw session token App Bridge sent (Authorization header on fetches,
+ * id_token on document loads)
+ */
+function getSessionToken(request: Request): string | null {
+  const header = request.headers.get('Authorization');
+  if (header?.startsWith('Bearer ')) return header.slice('Bearer '.length);
+  return new URL(request.url).searchParams.get('id_token');
+}
+
+/**
+ * Exchange the request's session token for fresh access tokens and store
+ * them over the current sessions (offline, plus online with
+ * SHOPIFY_ONLINE_TOKENS). Throws the 401 response from authenticate.admin()
+ * if the request's session token is invalid; if the exchange itself fails,
+ * the stored sessions are left as they were.
+ */
+export async function refreshSession(request: Request): Promise<SessionStatus> {
+  const { session } = await authenticate.admin(request);
+  const sessionToken = getSessionToken(request);
+  if (!sessionToken) {
+    throw new Error('Request has no session token to exchange');
+  }
+
+  const api = getTokenExchangeApi();
+  const { session: offline } = await api.auth.tokenExchange({
+    shop: session.shop,
+    sessionToken,
+    requestedTokenType: RequestedTokenType.OfflineAccessToken,
+  });
+  await sessionStorage.storeSession(offline);
+
+  let refreshed = offline;
+  if (env.useOnlineTokens) {
+    const { session: online } = await api.auth.tokenExchange({
+      shop: session.shop,
+      sessionToken,
+      requestedTokenType: RequestedTokenType.OnlineAccessToken,
+    });
+    await sessionStorage.storeSession(online);
+    refreshed = online;
+  }
+
+  logger.info('Session refreshed by token exchange', {
+    shop: refreshed.shop,
+    isOnline: refreshed.isOnline,
+    expires: refreshed.expires?.toISOString() ?? null,
+  });
+
+  return getSessionStatus(refreshed);
+}
@@ -0,0 +1,127 @@
+/**
+ * Shop Install Lifecycle
+ *
+ * Tracks each shop through installed → uninstalled → redacted → reinstalled:
+ * - installed:   Shop row with status "installed"
+ * - uninstalled: Shop row with status "uninstalled", sessions purged and the
+ *                subscription back on the free plan (Shopify cancels charges)
+ * - redacted:    Shop row deleted by shop/redact, ShopRedaction tombstone left
+ * - reinstalled: back to "installed" with reinstalledCount incremented
+ *
+ * Called from the afterAuth hook and the app/uninstalled webhook.
+ */
+
+import type { Session } from '@shopify/shopify-app-remix/server';
+import prisma from '../db.server';
+import { logger } from './logger.server';
+import { hashIdentifier } from './customer-redaction.server';
+import { resetSubscriptionAfterUninstall } from './billing.server';
+
+export type ShopStatus = 'installed' | 'uninstalled';
+export type ShopLifecycleState = ShopStatus | 'redacted' | 'unknown';
+
+export type InstallEvent =
+  | 'install' // first install
+  | 'reinstall' // installed again, data kept since uninstall
+  | 'reinstall_after_redaction' // installed again after shop/redact purged the data
+  | 'reauthorize'; // token exchange for an already installed shop
+
+async function findShopRedaction(shop: string) {
+  return prisma.shopRedaction.findUnique({ where: { shopHash: hashIdentifier(shop) } });
+}
+
+/**
+ * Current lifecycle state of a shop, including shops that were redacted
+ */
+export async function getShopLifecycleState(shop: string): Promise<ShopLifecycleState> {
+  const record = await prisma.shop.findUnique({ where: { shop }, select: { status: true } });
+  if (record) return record.status as ShopStatus;
+
+  return (await findShopRedaction(shop)) ? 'redacted' : 'unknown';
+}
+
+/**
+ * Record a successful auth for a shop and work out whether it was an
+ * install, a reinstall or just a new token for an installed shop
+ */
+export async function recordShopInstall(session: Session): Promise<InstallEvent> {
+  const { shop } = session;
+  const now = new Date();
+  const existing = await prisma.shop.findUnique({ where: { shop } });
+
+  if (existing?.status === 'installed') {
+    await prisma.shop.update({ where: { shop }, data: { updatedAt: now } });
+    return 'reauthorize';
+  }
+
+  if (existing) {
+    // Uninstalled but not redacted yet: settings, staff roles and history
+    // are still in place and become active again. The store's Shopify plan
+    // may have changed while the app was away, so clearing planCheckedAt
+    // makes afterAuth fetch the billing flags again. The subscription is
+    // reset in case the app/uninstalled webhook never arrived.
+    await prisma.shop.update({
+      where: { shop },
+      data: {
+        status: 'installed',
+        reinstalledAt: now,
+        reinstalledCount: { increment: 1 },
+        planCheckedAt: null,
+      },
+    });
+    await resetSubscriptionAfterUninstall(shop);
+
+    logger.info('Shop reinstalled with retained data', {
+      shop,
+      uninstalledAt: existing.uninstalledAt?.toISOString(),
+      reinstalledCount: existing.reinstalledCount + 1,
+    });
+    return 'reinstall';
+  }
+
+  // No Shop row: either a first install or the data was purged by shop/redact
+  const redaction = await findShopRedaction(shop);
+
+  await prisma.shop.upsert({
+    where: { shop },
+    update: { updatedAt: now },
+    create: {
+      shop,
+      status: 'installed',
+      installedAt: now,
+      ...(redaction ? { reinstalledAt: now, reinstalledCount: 1 } : {}),
+    },
+  });
+
+  if (redaction) {
+    logger.info('Shop reinstalled after data redaction', {
+      shop,
+      redactedAt: redaction.redactedAt.toISOString(),
+    });
+    return 'reinstall_after_redaction';
+  }
+
+  return 'install';
+}
+
+/**
+ * Mark a shop as uninstalled, purge its sessions and move it to the free plan.
+ * Access tokens are revoked by Shopify on uninstall, so keeping them only
+ * leads to failed API calls. Shop data is kept until shop/redact arrives.
+ */
+export async function recordShopUninstall(shop: string) {
+  const [updated, sessions] = await prisma.$transaction([
+    prisma.shop.updateMany({
+      where: { shop },
+      data: { status: 'uninstalled', uninstalledAt: new Date() },
+    }),
+    prisma.session.deleteMany({ where: { shop } }),
+  ]);
+  await resetSubscriptionAfterUninstall(shop);
+
+  logger.info('Shop marked as uninstalled', {
+    shop,
+    shopUpdated: updated.count > 0,
+    sessionsDeleted: sessions.count,
+  });
+}
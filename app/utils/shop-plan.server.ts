@@ -0,0 +1,93 @@
+/**
+ * Shop Plan Detection
+ *
+ * Records the shop's Shopify plan on the Shop row so billing can treat
+ * partner development stores and Shopify Plus stores differently:
+ * - Development stores get test charges and free access to every plan
+ * - Plus stores unlock features gated with withPlan({ shopifyPlus: true })
+ *
+ * Checked on install and again on app loads (routes/app.tsx) once the
+ * stored value is missing or older than PLAN_RECHECK_MS, since a
+ * development store becomes a paying store when it is transferred to a
+ * merchant.
+ */
+
+import type { AdminGraphqlClient } from '@shopify/shopify-app-remix/server';
+import prisma from '../db.server';
+import { logger } from './logger.server';
+
+const PLAN_RECHECK_MS = 24 * 60 * 60 * 1000;
+
+const SHOP_PLAN_QUERY = `#graphql
+  query ShopPlan {
+    shop {
+      plan {
+        displayName
+        partnerDevelopment
+        shopifyPlus
+      }
+    }
+  }
+`;
+
+export interface ShopPlanFlags {
+  isDevelopmentStore: boolean;
+  isShopifyPlus: boolean;
+}
+
+/**
+ * Query the shop's plan and store it on the Shop row
+ */
+export async function syncShopPlan(graphql: AdminGraphqlClient, shop: string): Promise<ShopPlanFlags> {
+  const response = await graphql(SHOP_PLAN_QUERY);
+  const { data } = await response.json();
+  const plan = data?.shop?.plan;
+
+  const flags: ShopPlanFlags = {
+    isDevelopmentStore: Boolean(plan?.partnerDevelopment),
+    isShopifyPlus: Boolean(plan?.shopifyPlus),
+  };
+
+  await prisma.shop.updateMany({
+    where: { shop },
+    data: { ...flags, shopifyPlan: plan?.displayName ?? null, planCheckedAt: new Date() },
+  });
+
+  logger.info('Shop plan recorded', { shop, plan: plan?.displayName, ...flags });
+  return flags;
+}
+
+/**
+ * Re-query the plan if it has never been checked or the check is stale.
+ * Never throws - a failed check keeps the previous values.
+ */
+export async function refreshShopPlanIfStale(graphql: AdminGraphqlClient, shop: string): Promise<void> {
+  const record = await prisma.shop.findUnique({ where: { shop }, select: { planCheckedAt: true } });
+  if (record?.planCheckedAt && Date.now() - record.planCheckedAt.getTime() < PLAN_RECHECK_MS) {
+    return;
+  }
+
+  try {
+    await syncShopPlan(graphql, shop);
+  } catch (error) {
+    logger.warn('Could not check shop plan', {
+      shop,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Stored plan flags (false for unknown shops)
+ */
+export async function getShopPlanFlags(shop: string): Promise<ShopPlanFlags> {
+  const record = await prisma.shop.findUnique({
+    where: { shop },
+    select: { isDevelopmentStore: true, isShopifyPlus: true },
+  });
+
+  return {
+    isDevelopmentStore: record?.isDevelopmentStore ?? false,
+    isShopifyPlus: record?.isShopifyPlus ?? false,
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * GDPR Shop Data Purge
+ *
+ * Handles shop/redact (sent 48 hours after uninstall) by deleting every
+ * shop-scoped row in dependency order inside one transaction, then leaving
+ * a ShopRedaction tombstone holding only a hash of the shop domain and the
+ * redaction time.
+ *
+ * When you add a model that is scoped to a shop, add it to SHOP_DATA_MODELS
+ * below - children before parents, the Shop row itself last. Rows that must
+ * outlive the shop (audit trails) are anonymized instead.
+ */
+
+import type { Prisma } from '@prisma/client';
+import prisma from '../db.server';
+import { logger } from './logger.server';
+import { hashIdentifier } from './customer-redaction.server';
+
+interface ShopDataModel {
+  name: string;
+  purge: (db: Prisma.TransactionClient, shop: string) => Promise<{ count: number }>;
+}
+
+// Deleted in this order
+const SHOP_DATA_MODELS: ShopDataModel[] = [
+  { name: 'OrderLineItem', purge: (db, shop) => db.orderLineItem.deleteMany({ where: { shop } }) },
+  { name: 'Order', purge: (db, shop) => db.order.deleteMany({ where: { shop } }) },
+  { name: 'ProductVariant', purge: (db, shop) => db.productVariant.deleteMany({ where: { shop } }) },
+  { name: 'Product', purge: (db, shop) => db.product.deleteMany({ where: { shop } }) },
+  { name: 'BilledOrder', purge: (db, shop) => db.billedOrder.deleteMany({ where: { shop } }) },
+  {
+    name: 'SubscriptionStatusChange',
+    purge: (db, shop) => db.subscriptionStatusChange.deleteMany({ where: { shop } }),
+  },
+  { name: 'StaffRole', purge: (db, shop) => db.staffRole.deleteMany({ where: { shop } }) },
+  { name: 'StaffActivity', purge: (db, shop) => db.staffActivity.deleteMany({ where: { shop } }) },
+  { name: 'PlanChange', purge: (db, shop) => db.planChange.deleteMany({ where: { shop } }) },
+  { name: 'Subscription', purge: (db, shop) => db.subscription.deleteMany({ where: { shop } }) },
+  { name: 'DataRequest', purge: (db, shop) => db.dataRequest.deleteMany({ where: { shop } }) },
+  // The running shop/redact job and its event are left to finish
+  { name: 'Job', purge: (db, shop) => db.job.deleteMany({ where: { shop, status: { not: 'running' } } }) },
+  {
+    name: 'WebhookEvent',
+    purge: (db, shop) => db.webhookEvent.deleteMany({ where: { shop, status: { not: 'processing' } } }),
+  },
+  // Proof-of-deletion and operator audit trails are kept, with only a hash of the shop domain
+  {
+    name: 'RedactionAudit',
+    purge: (db, shop) => db.redactionAudit.updateMany({ where: { shop }, data: { shop: hashIdentifier(shop) } }),
+  },
+  {
+    name: 'OperatorAuditLog',
+    purge: (db, shop) =>
+      db.operatorAuditLog.updateMany({ where: { shop }, data: { shop: hashIdentifier(shop) } }),
+  },
+  // Access tokens - must never outlive the redaction
+  { name: 'Session', purge: (db, shop) => db.session.deleteMany({ where: { shop } }) },
+  { name: 'Shop', purge: (db, shop) => db.shop.deleteMany({ where: { shop } }) },
+];
+
+export interface ShopPurgeResult {
+  shopHash: string;
+  redactedAt: Date;
+  counts: Record<string, number>;
+}
+
+/**
+ * Delete all data for a shop and record a tombstone
+ */
+export async function purgeShopData(shop: string): Promise<ShopPurgeResult> {
+  const shopHash = hashIdentifier(shop);
+
+  const result = await prisma.$transaction(async (tx) => {
+    const counts: Record<string, number> = {};
+
+    for (const model of SHOP_DATA_MODELS) {
+      const { count } = await model.purge(tx, shop);
+      counts[model.name] = count;
+    }
+
+    const tombstone = await tx.shopRedaction.upsert({
+      where: { shopHash },
+      update: { redactedAt: new Date() },
+      create: { shopHash },
+    });
+
+    return { shopHash, redactedAt: tombstone.redactedAt, counts };
+  });
+
+  logger.info('GDPR: Shop data purged', { shop, counts: result.counts });
+
+  return result;
+}
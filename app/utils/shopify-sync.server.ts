@@ -0,0 +1,246 @@
+/**
+ * Product and Order Sync
+ *
+ * Keeps the Product / ProductVariant and Order / OrderLineItem tables in
+ * step with Shopify from the products/* and orders/* webhooks, so app code
+ * can query catalog and order data locally instead of polling the Admin API.
+ *
+ * Shopify doesn't guarantee delivery order, so each payload's updated_at is
+ * compared with the last one applied and older payloads are skipped.
+ *
+ * Usage:
+ *   const products = await prisma.product.findMany({
+ *     where: { shop, deletedAt: null },
+ *     include: { variants: true },
+ *   });
+ *   return products.map(toShopifyProduct);
+ */
+
+import type { Order, OrderLineItem, Prisma, Product, ProductVariant } from '@prisma/client';
+import prisma from '../db.server';
+import { logger } from './logger.server';
+import type { ShopifyImage, ShopifyOrder, ShopifyProduct } from '../types/common';
+import type { OrderPayload, ProductDeletePayload, ProductPayload } from '../types/webhooks';
+
+export type SyncResult = 'upserted' | 'skipped';
+
+function gid(resource: string, id: number | null): string | null {
+  return id ? `gid://shopify/${resource}/${id}` : null;
+}
+
+function isStale(lastApplied: Date | null, updatedAt: Date): boolean {
+  return lastApplied !== null && updatedAt < lastApplied;
+}
+
+function parseTags(tags: string): string[] {
+  return tags
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+function lowestPrice(prices: (string | null)[]): string | null {
+  const values = prices.filter((price): price is string => price !== null).map(Number);
+  return values.length > 0 ? Math.min(...values).toFixed(2) : null;
+}
+
+// ---------------------------------------------------------------------------
+// Products
+// ---------------------------------------------------------------------------
+
+/**
+ * Apply a products/create or products/update payload
+ */
+export async function syncProduct(shop: string, payload: ProductPayload): Promise<SyncResult> {
+  const shopifyId = payload.admin_graphql_api_id;
+  const updatedAt = new Date(payload.updated_at);
+
+  const result = await prisma.$transaction(async (tx): Promise<SyncResult> => {
+    const existing = await tx.product.findUnique({
+      where: { shop_shopifyId: { shop, shopifyId } },
+      select: { shopifyUpdatedAt: true, deletedAt: true },
+    });
+    // A late update must not bring a deleted product back
+    if (existing && (existing.deletedAt || isStale(existing.shopifyUpdatedAt, updatedAt))) {
+      return 'skipped';
+    }
+
+    const images: ShopifyImage[] = payload.images.map((image) => ({
+      id: image.admin_graphql_api_id,
+      url: image.src,
+      altText: image.alt ?? undefined,
+      width: image.width ?? undefined,
+      height: image.height ?? undefined,
+    }));
+
+    const data = {
+      title: payload.title,
+      handle: payload.handle,
+      vendor: payload.vendor,
+      productType: payload.product_type,
+      status: payload.status,
+      tags: parseTags(payload.tags ?? ''),
+      images: images as unknown as Prisma.InputJsonValue,
+      price: lowestPrice(payload.variants.map((variant) => variant.price)),
+      compareAtPrice: lowestPrice(payload.variants.map((variant) => variant.compare_at_price)),
+      shopifyUpdatedAt: updatedAt,
+    };
+
+    const product = await tx.product.upsert({
+      where: { shop_shopifyId: { shop, shopifyId } },
+      update: data,
+      create: { shop, shopifyId, ...data },
+    });
+
+    // The payload always carries the full variant list
+    await tx.productVariant.deleteMany({ where: { productId: product.id } });
+    await tx.productVariant.createMany({
+      data: payload.variants.map((variant) => ({
+        shop,
+        shopifyId: variant.admin_graphql_api_id,
+        productId: product.id,
+        title: variant.title,
+        price: variant.price,
+        compareAtPrice: variant.compare_at_price,
+        sku: variant.sku || null,
+        inventoryQuantity: variant.inventory_quantity,
+        position: variant.position,
+      })),
+    });
+
+    return 'upserted';
+  });
+
+  logger.info('Product synced', { shop, productId: shopifyId, result });
+  return result;
+}
+
+/**
+ * Apply a products/delete payload. The row is kept with deletedAt set so
+ * out-of-order updates can't recreate it; its variants are removed.
+ */
+export async function deleteProduct(shop: string, payload: ProductDeletePayload): Promise<void> {
+  const shopifyId = gid('Product', payload.id) as string;
+
+  await prisma.$transaction([
+    prisma.productVariant.deleteMany({ where: { shop, product: { shopifyId } } }),
+    prisma.product.updateMany({
+      where: { shop, shopifyId, deletedAt: null },
+      data: { deletedAt: new Date() },
+    }),
+  ]);
+
+  logger.info('Product deleted', { shop, productId: shopifyId });
+}
+
+export function toShopifyProduct(product: Product & { variants: ProductVariant[] }): ShopifyProduct {
+  return {
+    id: product.shopifyId,
+    title: product.title,
+    handle: product.handle,
+    variants: product.variants.map((variant) => ({
+      id: variant.shopifyId,
+      title: variant.title,
+      price: variant.price.toFixed(2),
+      compareAtPrice: variant.compareAtPrice?.toFixed(2),
+      sku: variant.sku ?? undefined,
+      inventoryQuantity: variant.inventoryQuantity ?? undefined,
+    })),
+    images: product.images as unknown as ShopifyImage[],
+    price: product.price?.toFixed(2),
+    compareAtPrice: product.compareAtPrice?.toFixed(2),
+    vendor: product.vendor ?? undefined,
+    productType: product.productType ?? undefined,
+    tags: product.tags,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Orders
+// ---------------------------------------------------------------------------
+
+/**
+ * Apply an orders/create or orders/updated payload
+ */
+export async function syncOrder(shop: string, payload: OrderPayload): Promise<SyncResult> {
+  const shopifyId = payload.admin_graphql_api_id;
+  const updatedAt = new Date(payload.updated_at);
+
+  const result = await prisma.$transaction(async (tx): Promise<SyncResult> => {
+    const existing = await tx.order.findUnique({
+      where: { shop_shopifyId: { shop, shopifyId } },
+      select: { shopifyUpdatedAt: true },
+    });
+    if (existing && isStale(existing.shopifyUpdatedAt, updatedAt)) {
+      return 'skipped';
+    }
+
+    const data = {
+      orderNumber: payload.order_number,
+      name: payload.name,
+      total: payload.total_price,
+      subtotal: payload.subtotal_price,
+      currency: payload.currency,
+      financialStatus: payload.financial_status,
+      fulfillmentStatus: payload.fulfillment_status,
+      customerId: gid('Customer', payload.customer?.id ?? null),
+      customerEmail: (payload.customer?.email ?? payload.email)?.toLowerCase() ?? null,
+      customerFirstName: payload.customer?.first_name ?? null,
+      customerLastName: payload.customer?.last_name ?? null,
+      processedAt: new Date(payload.created_at),
+      cancelledAt: payload.cancelled_at ? new Date(payload.cancelled_at) : null,
+      shopifyUpdatedAt: updatedAt,
+    };
+
+    const order = await tx.order.upsert({
+      where: { shop_shopifyId: { shop, shopifyId } },
+      update: data,
+      create: { shop, shopifyId, ...data },
+    });
+
+    await tx.orderLineItem.deleteMany({ where: { orderId: order.id } });
+    await tx.orderLineItem.createMany({
+      data: payload.line_items.map((item) => ({
+        shop,
+        shopifyId: item.admin_graphql_api_id,
+        orderId: order.id,
+        productId: gid('Product', item.product_id),
+        variantId: gid('ProductVariant', item.variant_id),
+        title: item.title,
+        quantity: item.quantity,
+        price: item.price,
+      })),
+    });
+
+    return 'upserted';
+  });
+
+  logger.info('Order synced', { shop, orderId: shopifyId, result });
+  return result;
+}
+
+export function toShopifyOrder(order: Order & { lineItems: OrderLineItem[] }): ShopifyOrder {
+  return {
+    id: order.shopifyId,
+    orderNumber: order.orderNumber,
+    total: order.total.toNumber(),
+    subtotal: order.subtotal.toNumber(),
+    currency: order.currency,
+    lineItems: order.lineItems.map((item) => ({
+      id: item.shopifyId,
+      productId: item.productId ?? '',
+      variantId: item.variantId ?? '',
+      title: item.title,
+      quantity: item.quantity,
+      price: item.price.toNumber(),
+    })),
+    customer: order.customerId
+      ? {
+          id: order.customerId,
+          email: order.customerEmail ?? undefined,
+          firstName: order.customerFirstName ?? undefined,
+          lastName: order.customerLastName ?? undefined,
+        }
+      : undefined,
+  };
+}
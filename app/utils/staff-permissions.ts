@@ -0,0 +1,51 @@
+/**
+ * Staff Roles and Permissions
+ *
+ * The app-level permission model. Safe to import from both client and
+ * server code (hide buttons the staff member can't use, check actions).
+ *
+ * - owner:  the store's account owner - everything, including assigning roles
+ * - admin:  billing and settings
+ * - editor: settings, can view billing
+ * - viewer: read-only
+ *
+ * Roles are stored per shop in StaffRole (see staff-roles.server.ts).
+ */
+
+import type { Permission, StaffRoleName } from '../types/staff';
+
+export const STAFF_ROLES: StaffRoleName[] = ['owner', 'admin', 'editor', 'viewer'];
+
+export const ROLE_PERMISSIONS: Record<StaffRoleName, Permission[]> = {
+  owner: ['billing:view', 'billing:manage', 'settings:view', 'settings:manage', 'staff:manage'],
+  admin: ['billing:view', 'billing:manage', 'settings:view', 'settings:manage'],
+  editor: ['billing:view', 'settings:view', 'settings:manage'],
+  viewer: ['billing:view', 'settings:view'],
+};
+
+export const ROLE_LABELS: Record<StaffRoleName, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+/** Role for staff without a StaffRole row */
+export const DEFAULT_STAFF_ROLE: StaffRoleName = 'editor';
+
+/** Role for collaborator (agency / partner) accounts without a StaffRole row */
+export const DEFAULT_COLLABORATOR_ROLE: StaffRoleName = 'viewer';
+
+/** Role for requests whose staff member can't be identified or trusted */
+export const LEAST_PRIVILEGED_ROLE: StaffRoleName = 'viewer';
+
+/** Roles the account owner can assign (owner is always the account owner) */
+export const ASSIGNABLE_ROLES: StaffRoleName[] = ['admin', 'editor', 'viewer'];
+
+export function isStaffRole(value: unknown): value is StaffRoleName {
+  return typeof value === 'string' && (STAFF_ROLES as string[]).includes(value);
+}
+
+export function hasPermission(role: StaffRoleName, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
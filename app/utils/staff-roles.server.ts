@@ -0,0 +1,159 @@
+/**
+ * Staff Roles
+ *
+ * Resolves each staff member's app role (staff-permissions.ts) and lets
+ * the account owner assign roles on /app/settings/staff.
+ *
+ * Resolution order:
+ * 1. The store's account owner is always "owner" - only recognised from an
+ *    online session, so "staff:manage" needs SHOPIFY_ONLINE_TOKENS=true
+ * 2. A StaffRole row for the shop and staff member
+ * 3. Without online tokens the account owner can't be told apart from
+ *    other staff, so unassigned staff get the least-privileged role
+ * 4. DEFAULT_COLLABORATOR_ROLE for collaborators, else DEFAULT_STAFF_ROLE
+ *
+ * Staff are listed from the shop's online sessions, so they appear once
+ * they've opened the app with SHOPIFY_ONLINE_TOKENS=true.
+ *
+ * Usage (prefer requirePermission / withPermission in auth.server.ts):
+ *   const role = await resolveStaffRole(shop, currentStaff);
+ */
+
+import prisma from '../db.server';
+import { logger } from './logger.server';
+import { recordStaffActivity, staffDisplayName } from './staff.server';
+import {
+  ASSIGNABLE_ROLES,
+  DEFAULT_COLLABORATOR_ROLE,
+  DEFAULT_STAFF_ROLE,
+  LEAST_PRIVILEGED_ROLE,
+  isStaffRole,
+} from './staff-permissions';
+import type { CurrentStaff, StaffMember, StaffRoleName } from '../types/staff';
+
+function defaultRole(staff: { accountOwner: boolean; collaborator: boolean }): StaffRoleName {
+  if (staff.accountOwner) return 'owner';
+  return staff.collaborator ? DEFAULT_COLLABORATOR_ROLE : DEFAULT_STAFF_ROLE;
+}
+
+/**
+ * The app role of the staff member behind a request. Requests without a
+ * staff member (no user in the session) are read-only.
+ */
+export async function resolveStaffRole(shop: string, staff: CurrentStaff | null): Promise<StaffRoleName> {
+  if (!staff) return LEAST_PRIVILEGED_ROLE;
+  if (staff.accountOwner && staff.source === 'online_session') return 'owner';
+
+  const assigned = await prisma.staffRole.findUnique({
+    where: { shop_staffId: { shop, staffId: staff.id } },
+  });
+  if (assigned && isStaffRole(assigned.role) && ASSIGNABLE_ROLES.includes(assigned.role)) return assigned.role;
+
+  if (staff.source === 'session_token') return LEAST_PRIVILEGED_ROLE;
+  return defaultRole(staff);
+}
+
+/**
+ * Everyone who has opened the app with an online token, plus anyone with
+ * an assigned role, account owner first
+ */
+export async function listShopStaff(shop: string): Promise<StaffMember[]> {
+  const [sessions, roles] = await Promise.all([
+    prisma.session.findMany({
+      where: { shop, isOnline: true, userId: { not: null } },
+      select: {
+        userId: true,
+        firstName: true,
+        lastName: true,
+        email: true,
+        accountOwner: true,
+        collaborator: true,
+      },
+    }),
+    prisma.staffRole.findMany({ where: { shop } }),
+  ]);
+
+  const rolesByStaff = new Map(roles.map((row) => [row.staffId, row]));
+  const members = new Map<string, StaffMember>();
+
+  for (const session of sessions) {
+    const staffId = String(session.userId);
+    if (members.has(staffId)) continue;
+
+    const profile = { accountOwner: session.accountOwner, collaborator: Boolean(session.collaborator) };
+    const row = rolesByStaff.get(staffId);
+    const assignedRole = !profile.accountOwner && row && isStaffRole(row.role) ? row.role : null;
+
+    members.set(staffId, {
+      staffId,
+      name:
+        [session.firstName, session.lastName].filter(Boolean).join(' ') || session.email || `Staff ${staffId}`,
+      email: session.email,
+      ...profile,
+      role: assignedRole ?? defaultRole(profile),
+      assigned: assignedRole !== null,
+    });
+  }
+
+  // Assigned staff whose online sessions have since been removed
+  for (const row of roles) {
+    if (members.has(row.staffId) || !isStaffRole(row.role)) continue;
+    members.set(row.staffId, {
+      staffId: row.staffId,
+      name: row.staffName || row.staffEmail || `Staff ${row.staffId}`,
+      email: row.staffEmail,
+      accountOwner: false,
+      collaborator: false,
+      role: row.role,
+      assigned: true,
+    });
+  }
+
+  return [...members.values()].sort(
+    (a, b) => Number(b.accountOwner) - Number(a.accountOwner) || a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Assign a role. Only the account owner may call this (check
+ * "staff:manage" first, which needs online tokens); the account owner's
+ * own role can't be changed.
+ */
+export async function assignStaffRole(
+  shop: string,
+  staffId: string,
+  role: StaffRoleName,
+  assignedBy: CurrentStaff
+): Promise<void> {
+  if (!ASSIGNABLE_ROLES.includes(role)) {
+    throw new Error(`The ${role} role can't be assigned`);
+  }
+
+  const members = await listShopStaff(shop);
+  const member = members.find((m) => m.staffId === staffId);
+  if (member?.accountOwner) {
+    throw new Error("The account owner's role can't be changed");
+  }
+
+  await prisma.staffRole.upsert({
+    where: { shop_staffId: { shop, staffId } },
+    update: { role, assignedBy: assignedBy.id },
+    create: {
+      shop,
+      staffId,
+      role,
+      staffName: member?.name ?? null,
+      staffEmail: member?.email ?? null,
+      assignedBy: assignedBy.id,
+    },
+  });
+
+  await recordStaffActivity(shop, assignedBy, 'staff.role_change', {
+    staffId,
+    staffName: member?.name ?? null,
+    from: member?.role ?? null,
+    to: role,
+  });
+
+  logger.info('Staff role assigned', { shop, staffId, role, assignedBy: staffDisplayName(assignedBy) });
+}
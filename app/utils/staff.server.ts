@@ -0,0 +1,108 @@
+/**
+ * Staff Identity
+ *
+ * Works out which staff member made an admin request and records what
+ * they did in StaffActivity, so merchants can see who changed a setting.
+ *
+ * With SHOPIFY_ONLINE_TOKENS=true, authenticate.admin() returns an online
+ * (per-staff) session carrying the staff member's name, email and
+ * account owner / collaborator flags. The offline token is still stored
+ * for webhooks and jobs. Without online tokens only the user id from the
+ * session token is known.
+ *
+ * Usage (in an action):
+ *   const { session, sessionToken } = await authenticate.admin(request);
+ *   const currentStaff = getCurrentStaff({ session, sessionToken });
+ *   await recordStaffActivity(session.shop, currentStaff, 'settings.update', { field: 'currency' });
+ */
+
+import type { Prisma } from '@prisma/client';
+import type { Session } from '@shopify/shopify-app-remix/server';
+import prisma from '../db.server';
+import { logger } from './logger.server';
+import type { CurrentStaff } from '../types/staff';
+
+/**
+ * The staff member behind a request, or null if it has no user
+ * (e.g. an offline session without a session token)
+ */
+export function getCurrentStaff(auth: { session: Session; sessionToken?: { sub?: string } }): CurrentStaff | null {
+  const user = auth.session.onlineAccessInfo?.associated_user;
+
+  if (user) {
+    return {
+      id: String(user.id),
+      firstName: user.first_name ?? null,
+      lastName: user.last_name ?? null,
+      email: user.email ?? null,
+      locale: user.locale ?? null,
+      accountOwner: Boolean(user.account_owner),
+      collaborator: Boolean(user.collaborator),
+      source: 'online_session',
+    };
+  }
+
+  const userId = auth.sessionToken?.sub;
+  if (!userId) return null;
+
+  return {
+    id: userId,
+    firstName: null,
+    lastName: null,
+    email: null,
+    locale: null,
+    accountOwner: false,
+    collaborator: false,
+    source: 'session_token',
+  };
+}
+
+/**
+ * Name for activity logs and UI ("Jane Doe", the email, or "Staff 123")
+ */
+export function staffDisplayName(staff: CurrentStaff): string {
+  const name = [staff.firstName, staff.lastName].filter(Boolean).join(' ');
+  return name || staff.email || `Staff ${staff.id}`;
+}
+
+/**
+ * Record an action taken by a staff member (null for system actions).
+ * Never throws - a failed write is logged and the action carries on.
+ */
+export async function recordStaffActivity(
+  shop: string,
+  staff: CurrentStaff | null,
+  action: string,
+  details?: Prisma.InputJsonValue
+): Promise<void> {
+  try {
+    await prisma.staffActivity.create({
+      data: {
+        shop,
+        staffId: staff?.id ?? null,
+        staffName: staff ? staffDisplayName(staff) : null,
+        staffEmail: staff?.email ?? null,
+        action,
+        details,
+      },
+    });
+  } catch (error) {
+    logger.warn('Could not record staff activity', {
+      shop,
+      action,
+      staffId: staff?.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Most recent recorded actions for a shop, newest first
+ */
+export async function listStaffActivity(shop: string, options: { staffId?: string; limit?: number } = {}) {
+  return prisma.staffActivity.findMany({
+    where: { shop, ...(options.staffId ? { staffId: options.staffId } : {}) },
+    orderBy: { createdAt: 'desc' },
+    take: options.limit ?? 50,
+  });
+}
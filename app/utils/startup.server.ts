@@ -4,15 +4,34 @@
  * Run all startup checks to ensure the app is properly configured
  * before accepting requests.
  *
- * Import this at the top of your server entry point:
+ * Imported at the top of the server entry point (app/entry.server.tsx):
  *   import "~/utils/startup.server";
  */
 
+import fs from 'fs';
+import path from 'path';
 import { validateEnvOrThrow } from './env.server';
+import { logger } from './logger.server';
+import { findUnhandledTopics } from './webhook-router.server';
+// Registers the topic handlers with the router
+import './webhook-handlers.server';
 
 // Validate environment variables
 validateEnvOrThrow();
 
+// Flag webhook topics subscribed in shopify.app.toml without a handler.
+// The toml is only present locally (it isn't deployed), so this runs in development.
+const tomlPath = path.join(process.cwd(), 'shopify.app.toml');
+if (fs.existsSync(tomlPath)) {
+  const unhandled = findUnhandledTopics(fs.readFileSync(tomlPath, 'utf8'));
+  if (unhandled.length > 0) {
+    logger.warn(
+      'Webhook topics subscribed in shopify.app.toml without a handler; register them with onTopic() in app/utils/webhook-handlers.server.ts',
+      { topics: unhandled.join(', ') }
+    );
+  }
+}
+
 // Future: Add other startup checks here
 // - Database connectivity
 // - Required tables exist
@@ -0,0 +1,208 @@
+/**
+ * Superadmin Operator Auth
+ *
+ * Sign-in and audit trail for the /superadmin operator console, which
+ * runs outside the embedded app (no Shopify session). Operators sign in
+ * with ADMIN_SECRET as a password, plus a code from an authenticator app
+ * when SUPERADMIN_TOTP_SECRET is set (two factors; each code works once).
+ * Failed attempts lock sign-in (superadmin-throttle.server.ts). The console is disabled (404)
+ * while ADMIN_SECRET is unset, or SESSION_SECRET (which signs the operator
+ * cookie) is missing, short or the old placeholder.
+ *
+ * The signed-in operator lives in the __superadmin_session cookie
+ * (superadmin-session.server.ts) for OPERATOR_SESSION_HOURS. Everything
+ * an operator does is written to OperatorAuditLog first.
+ *
+ * Usage (in a /superadmin loader or action):
+ *   const operator = await requireOperator(request);
+ *   await recordOperatorAction(request, operator, 'shop.view', { shop });
+ */
+
+import { redirect } from '@remix-run/node';
+import type { Prisma } from '@prisma/client';
+import prisma from '../db.server';
+import { env, getOptionalEnv } from './env.server';
+import { logger } from './logger.server';
+import { safeCompare } from './secret-auth.server';
+import { claimTotpStep } from './superadmin-throttle.server';
+import { verifyTotp } from './totp.server';
+import { commitSession, destroySession, getSession } from './superadmin-session.server';
+
+/** 'totp' is ADMIN_SECRET plus an authenticator code */
+export type OperatorLoginMethod = 'password' | 'totp';
+
+export interface Operator {
+  name: string;
+  method: OperatorLoginMethod;
+  signedInAt: string;
+  /** Shop being viewed in read-only "view as shop" mode */
+  viewAsShop: string | null;
+}
+
+export const OPERATOR_SESSION_HOURS = 8;
+
+// Placeholder the cookie used to fall back to; anyone could sign with it
+const PLACEHOLDER_SESSION_SECRET = 'default-secret-change-in-production';
+
+function hasSessionSecret(): boolean {
+  const secret = getOptionalEnv('SESSION_SECRET');
+  return secret.length >= 32 && secret !== PLACEHOLDER_SESSION_SECRET;
+}
+
+export function isSuperadminEnabled(): boolean {
+  return Boolean(env.adminSecret) && hasSessionSecret();
+}
+
+export function isTotpLoginEnabled(): boolean {
+  return isSuperadminEnabled() && Boolean(env.superadminTotpSecret);
+}
+
+/**
+ * Client IP for the audit log and sign-in throttle. Prefers X-Real-IP,
+ * which Vercel sets itself, over the client-supplied X-Forwarded-For.
+ */
+export function getRequestIp(request: Request): string | null {
+  const forwarded = request.headers.get('x-forwarded-for');
+  return request.headers.get('x-real-ip') || forwarded?.split(',')[0].trim() || null;
+}
+
+/**
+ * How the credentials sign in, or null if they don't. ADMIN_SECRET is
+ * always required; with TOTP enabled a current, not yet used
+ * authenticator code is required too.
+ */
+export async function checkOperatorCredential(
+  password: string,
+  code: string
+): Promise<OperatorLoginMethod | null> {
+  if (!isSuperadminEnabled() || !password) return null;
+  if (!safeCompare(password, env.adminSecret)) return null;
+  if (!isTotpLoginEnabled()) return 'password';
+
+  const step = verifyTotp(env.superadminTotpSecret, code);
+  if (step === null || !(await claimTotpStep(step))) return null;
+  return 'totp';
+}
+
+/**
+ * Write an audit log entry. Throws if the write fails - an operator
+ * action that can't be audited shouldn't happen.
+ */
+export async function recordOperatorAction(
+  request: Request,
+  operator: Pick<Operator, 'name'>,
+  action: string,
+  options: { shop?: string; details?: Prisma.InputJsonValue } = {}
+): Promise<void> {
+  await prisma.operatorAuditLog.create({
+    data: {
+      operator: operator.name,
+      action,
+      shop: options.shop ?? null,
+      details: options.details,
+      ipAddress: getRequestIp(request),
+    },
+  });
+
+  logger.info('Superadmin: Operator action', { operator: operator.name, action, shop: options.shop });
+}
+
+/**
+ * Most recent audit log entries, newest first
+ */
+export async function listOperatorAudit(options: { shop?: string; limit?: number } = {}) {
+  return prisma.operatorAuditLog.findMany({
+    where: options.shop ? { shop: options.shop } : {},
+    orderBy: { createdAt: 'desc' },
+    take: options.limit ?? 50,
+  });
+}
+
+/**
+ * The signed-in operator, or null (also null once the session is older
+ * than OPERATOR_SESSION_HOURS)
+ */
+export async function getOperator(request: Request): Promise<Operator | null> {
+  if (!isSuperadminEnabled()) return null;
+
+  const session = await getSession(request.headers.get('Cookie'));
+  const name = session.get('operator');
+  const method = session.get('method');
+  const signedInAt = session.get('signedInAt');
+  if (typeof name !== 'string' || (method !== 'password' && method !== 'totp') || typeof signedInAt !== 'string') {
+    return null;
+  }
+
+  if (Date.now() - new Date(signedInAt).getTime() > OPERATOR_SESSION_HOURS * 60 * 60 * 1000) {
+    return null;
+  }
+
+  const viewAsShop = session.get('viewAsShop');
+  return { name, method, signedInAt, viewAsShop: typeof viewAsShop === 'string' ? viewAsShop : null };
+}
+
+/**
+ * The signed-in operator. Throws a redirect to /superadmin/login otherwise,
+ * or a 404 while the console is disabled.
+ */
+export async function requireOperator(request: Request): Promise<Operator> {
+  if (!isSuperadminEnabled()) {
+    throw new Response('Not found', { status: 404 });
+  }
+
+  const operator = await getOperator(request);
+  if (!operator) {
+    const url = new URL(request.url);
+    const redirectTo = encodeURIComponent(url.pathname + url.search);
+    throw redirect(`/superadmin/login?redirectTo=${redirectTo}`);
+  }
+  return operator;
+}
+
+/**
+ * Start an operator session. Returns the Set-Cookie header value.
+ */
+export async function signInOperator(
+  request: Request,
+  name: string,
+  method: OperatorLoginMethod
+): Promise<string> {
+  await recordOperatorAction(request, { name }, 'operator.login', { details: { method } });
+
+  const session = await getSession(request.headers.get('Cookie'));
+  session.set('operator', name);
+  session.set('method', method);
+  session.set('signedInAt', new Date().toISOString());
+  session.unset('viewAsShop');
+
+  return commitSession(session, { maxAge: OPERATOR_SESSION_HOURS * 60 * 60 });
+}
+
+/**
+ * End the operator session. Returns the Set-Cookie header value.
+ */
+export async function signOutOperator(request: Request, operator: Operator): Promise<string> {
+  await recordOperatorAction(request, operator, 'operator.logout');
+  return destroySession(await getSession(request.headers.get('Cookie')));
+}
+
+/**
+ * Enter (shop) or leave (null) read-only "view as shop" mode.
+ * Returns the Set-Cookie header value.
+ */
+export async function setViewAsShop(request: Request, operator: Operator, shop: string | null): Promise<string> {
+  if (shop) {
+    await recordOperatorAction(request, operator, 'shop.view_as_start', { shop });
+  } else if (operator.viewAsShop) {
+    await recordOperatorAction(request, operator, 'shop.view_as_end', { shop: operator.viewAsShop });
+  }
+
+  const session = await getSession(request.headers.get('Cookie'));
+  if (shop) {
+    session.set('viewAsShop', shop);
+  } else {
+    session.unset('viewAsShop');
+  }
+  // getOperator() still ends the session OPERATOR_SESSION_HOURS after sign-in
+  return commitSession(session, { maxAge: OPERATOR_SESSION_HOURS * 60 * 60 });
+}
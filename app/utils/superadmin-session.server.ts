@@ -1,17 +1,28 @@
 import { createCookieSessionStorage } from "@remix-run/node";
+import type { SessionStorage } from "@remix-run/node";
+import { env } from "./env.server";
 
-const sessionSecret = process.env.SESSION_SECRET || "default-secret-change-in-production";
+let storage: SessionStorage | undefined;
 
-const { getSession, commitSession, destroySession } = createCookieSessionStorage({
-  cookie: {
-    name: "__superadmin_session",
-    secure: process.env.NODE_ENV === "production",
-    secrets: [sessionSecret],
-    sameSite: "lax",
-    path: "/",
-    maxAge: 60 * 60 * 24 * 7, // 7 days
-    httpOnly: true,
-  },
-});
+// Created on first use: without SESSION_SECRET the console is disabled
+// (isSuperadminEnabled) rather than signing cookies with a guessable secret
+function getStorage(): SessionStorage {
+  if (!storage) {
+    storage = createCookieSessionStorage({
+      cookie: {
+        name: "__superadmin_session",
+        secure: process.env.NODE_ENV === "production",
+        secrets: [env.sessionSecret],
+        sameSite: "lax",
+        path: "/",
+        maxAge: 60 * 60 * 24 * 7, // 7 days
+        httpOnly: true,
+      },
+    });
+  }
+  return storage;
+}
 
-export { getSession, commitSession, destroySession };
+export const getSession: SessionStorage["getSession"] = (...args) => getStorage().getSession(...args);
+export const commitSession: SessionStorage["commitSession"] = (...args) => getStorage().commitSession(...args);
+export const destroySession: SessionStorage["destroySession"] = (...args) => getStorage().destroySession(...args);
@@ -0,0 +1,178 @@
+/**
+ * Superadmin Shop Lookups
+ *
+ * Read-only queries behind the /superadmin console: the installed shops
+ * list and everything support needs about one shop. Nothing here writes -
+ * unlike getSubscriptionInfo(), usage is computed from the stored
+ * subscription without creating rows or rolling billing periods - so
+ * looking at a shop never changes it.
+ */
+
+import type { Prisma } from '@prisma/client';
+import prisma from '../db.server';
+import { FREE_PLAN_TIER, isPlanTier, periodOrderLimit } from './billing-plans';
+import { computeUsage, countBilledOrders } from './billing-usage.server';
+import { getShopLifecycleState } from './shop-lifecycle.server';
+import type { ShopStatus } from './shop-lifecycle.server';
+
+export const SHOPS_PAGE_SIZE = 50;
+
+export interface ShopListFilters {
+  status?: ShopStatus;
+  /** Part of the shop domain */
+  search?: string;
+  page?: number;
+}
+
+/**
+ * One page of shops, most recently installed first, with their plan
+ */
+export async function listShops(filters: ShopListFilters = {}) {
+  const page = Math.max(1, filters.page ?? 1);
+  const where: Prisma.ShopWhereInput = {
+    ...(filters.status ? { status: filters.status } : {}),
+    ...(filters.search ? { shop: { contains: filters.search.trim().toLowerCase() } } : {}),
+  };
+
+  const [shops, total, statusCounts] = await Promise.all([
+    prisma.shop.findMany({
+      where,
+      orderBy: { installedAt: 'desc' },
+      skip: (page - 1) * SHOPS_PAGE_SIZE,
+      take: SHOPS_PAGE_SIZE,
+    }),
+    prisma.shop.count({ where }),
+    prisma.shop.groupBy({ by: ['status'], _count: { _all: true } }),
+  ]);
+
+  const subscriptions = await prisma.subscription.findMany({
+    where: { shop: { in: shops.map((s) => s.shop) } },
+    select: { shop: true, planTier: true, planStatus: true, trialEndsAt: true, test: true },
+  });
+  const subscriptionsByShop = new Map(subscriptions.map((s) => [s.shop, s]));
+
+  return {
+    shops: shops.map((shop) => {
+      const subscription = subscriptionsByShop.get(shop.shop);
+      return {
+        shop: shop.shop,
+        status: shop.status,
+        installedAt: shop.installedAt,
+        uninstalledAt: shop.uninstalledAt,
+        reinstalledCount: shop.reinstalledCount,
+        shopifyPlan: shop.shopifyPlan,
+        isDevelopmentStore: shop.isDevelopmentStore,
+        planTier: subscription && isPlanTier(subscription.planTier) ? subscription.planTier : FREE_PLAN_TIER,
+        planStatus: subscription?.planStatus ?? null,
+        trialEndsAt: subscription?.trialEndsAt ?? null,
+        testCharge: subscription?.test ?? false,
+      };
+    }),
+    page,
+    total,
+    hasNextPage: page * SHOPS_PAGE_SIZE < total,
+    pageCount: Math.max(1, Math.ceil(total / SHOPS_PAGE_SIZE)),
+    statusCounts: Object.fromEntries(statusCounts.map((row) => [row.status, row._count._all])) as Record<
+      string,
+      number
+    >,
+  };
+}
+
+/**
+ * Everything about one shop for the detail and "view as shop" pages.
+ * Null if the shop has no Shop row (never installed, or redacted).
+ */
+export async function getShopOverview(shop: string) {
+  const record = await prisma.shop.findUnique({ where: { shop } });
+  if (!record) return null;
+
+  const [
+    lifecycle,
+    subscription,
+    planChanges,
+    statusChanges,
+    sessions,
+    webhookEvents,
+    jobCounts,
+    recentJobs,
+    staffActivity,
+    staffRoleCount,
+    productCount,
+    orderCount,
+  ] = await Promise.all([
+    getShopLifecycleState(shop),
+    prisma.subscription.findUnique({ where: { shop } }),
+    prisma.planChange.findMany({ where: { shop }, orderBy: { createdAt: 'desc' }, take: 10 }),
+    prisma.subscriptionStatusChange.findMany({ where: { shop }, orderBy: { occurredAt: 'desc' }, take: 20 }),
+    prisma.session.findMany({
+      where: { shop },
+      // Never the access token
+      select: { isOnline: true, scope: true },
+    }),
+    prisma.webhookEvent.findMany({
+      where: { shop },
+      orderBy: { receivedAt: 'desc' },
+      take: 20,
+      select: { id: true, topic: true, status: true, attempts: true, error: true, receivedAt: true, processedAt: true },
+    }),
+    prisma.job.groupBy({ by: ['status'], where: { shop }, _count: { _all: true } }),
+    prisma.job.findMany({
+      where: { shop },
+      orderBy: { createdAt: 'desc' },
+      take: 10,
+      select: { id: true, type: true, status: true, attempts: true, lastError: true, runAt: true, createdAt: true },
+    }),
+    prisma.staffActivity.findMany({ where: { shop }, orderBy: { createdAt: 'desc' }, take: 20 }),
+    prisma.staffRole.count({ where: { shop } }),
+    prisma.product.count({ where: { shop } }),
+    prisma.order.count({ where: { shop } }),
+  ]);
+
+  const planTier = subscription && isPlanTier(subscription.planTier) ? subscription.planTier : FREE_PLAN_TIER;
+  const usage = subscription
+    ? computeUsage(
+        await countBilledOrders(shop, subscription.billingPeriodStart),
+        periodOrderLimit(planTier, subscription.interval)
+      )
+    : null;
+  const offlineSession = sessions.find((s) => !s.isOnline);
+
+  return {
+    shop: record,
+    lifecycle,
+    subscription: subscription
+      ? {
+          planTier,
+          planStatus: subscription.planStatus,
+          interval: subscription.interval,
+          price: subscription.price.toString(),
+          currencyCode: subscription.currencyCode,
+          test: subscription.test,
+          shopifySubscriptionId: subscription.shopifySubscriptionId,
+          trialEndsAt: subscription.trialEndsAt,
+          billingPeriodStart: subscription.billingPeriodStart,
+          billingPeriodEnd: subscription.billingPeriodEnd,
+          activatedAt: subscription.activatedAt,
+          cancelledAt: subscription.cancelledAt,
+        }
+      : null,
+    usage,
+    planChanges,
+    statusChanges,
+    auth: {
+      hasOfflineToken: Boolean(offlineSession),
+      scopes: offlineSession?.scope ?? null,
+      onlineSessions: sessions.filter((s) => s.isOnline).length,
+    },
+    webhookEvents,
+    jobs: {
+      counts: Object.fromEntries(jobCounts.map((row) => [row.status, row._count._all])) as Record<string, number>,
+      recent: recentJobs,
+    },
+    staffActivity,
+    staffRoleCount,
+    productCount,
+    orderCount,
+  };
+}
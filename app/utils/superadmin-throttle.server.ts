@@ -0,0 +1,100 @@
+/**
+ * Superadmin Sign-In Throttle
+ *
+ * Durable brakes on /superadmin sign-in, kept in Postgres so they hold
+ * across serverless instances (the in-memory rateLimiter.server.ts does
+ * not):
+ * - Failed attempts are counted per client IP and across all IPs. Past
+ *   the limit within LOCKOUT_WINDOW_MS, sign-in is locked for
+ *   LOCKOUT_DURATION_MS. The global counter still applies if the IP
+ *   header is spoofed.
+ * - Each authenticator time step can sign in once, so a seen code can't
+ *   be replayed.
+ *
+ * Usage (in the login action):
+ *   if (await getLoginLockout(ip)) return json({ error }, { status: 429 });
+ *   if (!method) await recordLoginFailure(ip);
+ */
+
+import prisma from '../db.server';
+import { logger } from './logger.server';
+
+const LOCKOUT_WINDOW_MS = 15 * 60 * 1000;
+const LOCKOUT_DURATION_MS = 15 * 60 * 1000;
+const MAX_FAILURES_PER_IP = 5;
+const MAX_FAILURES_GLOBAL = 25;
+
+const GLOBAL_KEY = 'global';
+const TOTP_STEP_ID = 'superadmin';
+
+function ipKey(ip: string | null): string {
+  return `ip:${ip ?? 'unknown'}`;
+}
+
+/**
+ * When sign-in unlocks for this IP, or null if it isn't locked
+ */
+export async function getLoginLockout(ip: string | null): Promise<Date | null> {
+  const rows = await prisma.operatorLoginThrottle.findMany({
+    where: { key: { in: [ipKey(ip), GLOBAL_KEY] }, lockedUntil: { gt: new Date() } },
+    select: { lockedUntil: true },
+  });
+
+  const until = rows.map((row) => row.lockedUntil!.getTime());
+  return until.length > 0 ? new Date(Math.max(...until)) : null;
+}
+
+async function countFailure(key: string, limit: number): Promise<void> {
+  const windowStart = new Date(Date.now() - LOCKOUT_WINDOW_MS);
+
+  // Atomic increment; the count restarts once the window has passed
+  const [row] = await prisma.$queryRaw<{ failures: number }[]>`
+    INSERT INTO "OperatorLoginThrottle" ("key", "failures", "windowStart", "updatedAt")
+    VALUES (${key}, 1, NOW(), NOW())
+    ON CONFLICT ("key") DO UPDATE SET
+      "failures" = CASE WHEN "OperatorLoginThrottle"."windowStart" < ${windowStart}
+        THEN 1 ELSE "OperatorLoginThrottle"."failures" + 1 END,
+      "windowStart" = CASE WHEN "OperatorLoginThrottle"."windowStart" < ${windowStart}
+        THEN NOW() ELSE "OperatorLoginThrottle"."windowStart" END,
+      "updatedAt" = NOW()
+    RETURNING "failures"
+  `;
+
+  if (row && row.failures >= limit) {
+    await prisma.operatorLoginThrottle.update({
+      where: { key },
+      data: { lockedUntil: new Date(Date.now() + LOCKOUT_DURATION_MS), failures: 0, windowStart: new Date() },
+    });
+    logger.warn('Superadmin: Sign-in locked after repeated failures', { key });
+  }
+}
+
+/**
+ * Count a failed sign-in against the IP and the global limit
+ */
+export async function recordLoginFailure(ip: string | null): Promise<void> {
+  await countFailure(ipKey(ip), MAX_FAILURES_PER_IP);
+  await countFailure(GLOBAL_KEY, MAX_FAILURES_GLOBAL);
+}
+
+/**
+ * Forget the IP's failures after a successful sign-in (the global count
+ * only expires with its window)
+ */
+export async function clearLoginFailures(ip: string | null): Promise<void> {
+  await prisma.operatorLoginThrottle.deleteMany({ where: { key: ipKey(ip) } });
+}
+
+/**
+ * Accept an authenticator time step once. False if this step, or a later
+ * one, has already signed in.
+ */
+export async function claimTotpStep(step: number): Promise<boolean> {
+  const claimed = await prisma.$executeRaw`
+    INSERT INTO "OperatorTotpStep" ("id", "lastStep", "updatedAt")
+    VALUES (${TOTP_STEP_ID}, ${step}, NOW())
+    ON CONFLICT ("id") DO UPDATE SET "lastStep" = EXCLUDED."lastStep", "updatedAt" = NOW()
+    WHERE "OperatorTotpStep"."lastStep" < EXCLUDED."lastStep"
+  `;
+  return claimed > 0;
+}
@@ -0,0 +1,130 @@
+/**
+ * Access Token Encryption
+ *
+ * AES-256-GCM encryption for the Shopify access tokens stored in the
+ * Session table (see encrypted-session-storage.server.ts).
+ *
+ * Keys come from SESSION_ENCRYPTION_KEYS, a comma-separated list of
+ * `version:secret` pairs. The first key encrypts; every listed key can
+ * decrypt. Each secret is stretched to a 256-bit key with HKDF, so any
+ * long random string works (openssl rand -base64 32).
+ *
+ * Rotating keys:
+ * 1. Put the new key first: SESSION_ENCRYPTION_KEYS=v2:<new>,v1:<old>
+ * 2. Re-encrypt stored tokens: POST /api/migrations/encrypt-sessions
+ * 3. Once it reports nothing remaining, drop v1 from the list
+ *
+ * Stored format: enc:<version>:<iv>:<auth tag>:<ciphertext> (base64url).
+ * The session id is bound in as additional data, so a token copied to
+ * another row won't decrypt. Values without the enc: prefix are read as
+ * plaintext, so existing rows keep working until they're migrated.
+ */
+
+import crypto from 'crypto';
+import { env } from './env.server';
+
+const PREFIX = 'enc';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const HKDF_SALT = 'shopify-session-access-token';
+
+export interface EncryptionKey {
+  version: string;
+  key: Buffer;
+}
+
+// Derived keys, cached per SESSION_ENCRYPTION_KEYS value
+let keyCache: { source: string; keys: EncryptionKey[] } | null = null;
+
+/**
+ * Parse a SESSION_ENCRYPTION_KEYS value. Throws on malformed entries or
+ * repeated versions so a bad config fails loudly instead of locking tokens.
+ */
+export function parseEncryptionKeys(value: string): EncryptionKey[] {
+  const keys = value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      const version = entry.slice(0, separator);
+      const secret = entry.slice(separator + 1);
+      if (separator < 1 || !/^[A-Za-z0-9_-]+$/.test(version) || secret.length < 32) {
+        throw new Error('SESSION_ENCRYPTION_KEYS entries must be version:secret with a secret of 32+ characters');
+      }
+      return {
+        version,
+        key: Buffer.from(crypto.hkdfSync('sha256', secret, HKDF_SALT, `token-key:${version}`, 32)),
+      };
+    });
+
+  const versions = new Set(keys.map((k) => k.version));
+  if (versions.size !== keys.length) {
+    throw new Error('SESSION_ENCRYPTION_KEYS has the same version twice');
+  }
+  return keys;
+}
+
+function getKeys(): EncryptionKey[] {
+  const source = env.sessionEncryptionKeys;
+  if (keyCache?.source !== source) {
+    keyCache = { source, keys: source ? parseEncryptionKeys(source) : [] };
+  }
+  return keyCache.keys;
+}
+
+export function isTokenEncryptionEnabled(): boolean {
+  return getKeys().length > 0;
+}
+
+/**
+ * Version of the key new tokens are encrypted with (null when disabled)
+ */
+export function currentKeyVersion(): string | null {
+  return getKeys()[0]?.version ?? null;
+}
+
+export function isEncryptedToken(value: string): boolean {
+  return value.startsWith(`${PREFIX}:`);
+}
+
+/**
+ * Encrypt a token with the current key. Returns it unchanged while
+ * encryption is disabled.
+ */
+export function encryptToken(plaintext: string, sessionId: string): string {
+  const [current] = getKeys();
+  if (!current || !plaintext) return plaintext;
+
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, current.key, iv);
+  cipher.setAAD(Buffer.from(sessionId));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [
+    PREFIX,
+    current.version,
+    iv.toString('base64url'),
+    cipher.getAuthTag().toString('base64url'),
+    ciphertext.toString('base64url'),
+  ].join(':');
+}
+
+/**
+ * Decrypt a stored token. Plaintext values are returned as they are.
+ * Throws if the key version isn't configured or the value was tampered with.
+ */
+export function decryptToken(stored: string, sessionId: string): string {
+  if (!isEncryptedToken(stored)) return stored;
+
+  const [, version, iv, tag, ciphertext] = stored.split(':');
+  const key = getKeys().find((k) => k.version === version);
+  if (!key) {
+    throw new Error(`No SESSION_ENCRYPTION_KEYS entry for key version ${version}`);
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key.key, Buffer.from(iv, 'base64url'));
+  decipher.setAAD(Buffer.from(sessionId));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+}
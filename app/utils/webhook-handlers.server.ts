@@ -0,0 +1,99 @@
+/**
+ * Webhook Topic Handlers
+ *
+ * One registration per subscribed topic. Deliveries arrive at the /webhooks
+ * route, are stored in the webhook inbox and then dispatched here by a
+ * background job, which also lets stored events be replayed.
+ *
+ * Imported for its side effects by webhook-inbox.server.ts.
+ */
+
+import { logger } from './logger.server';
+import { onTopic } from './webhook-router.server';
+import { createDataRequest, processDataRequest } from './customer-data.server';
+import { redactCustomer } from './customer-redaction.server';
+import { purgeShopData } from './shop-redaction.server';
+import { recordShopUninstall } from './shop-lifecycle.server';
+import { deleteProduct, syncOrder, syncProduct } from './shopify-sync.server';
+import { recordBilledOrder } from './billing-usage.server';
+import { applySubscriptionUpdate } from './billing.server';
+import { isShopFeatureEnabled } from './scopes.server';
+
+// GDPR compliance webhooks (required)
+
+onTopic('CUSTOMERS_DATA_REQUEST', async ({ shop }, payload) => {
+  logger.info('GDPR: Customer data request received', {
+    shop,
+    customerId: payload.customer?.id,
+    dataRequestId: payload.data_request?.id,
+  });
+
+  // Persist the request first so it's never lost, then build the export.
+  // The JSON/CSV bundle is stored on the DataRequest record for the merchant
+  // to hand over to the customer.
+  const dataRequest = await createDataRequest(shop, payload);
+  await processDataRequest(dataRequest.id);
+});
+
+onTopic('CUSTOMERS_REDACT', async ({ shop, webhookId }, payload) => {
+  logger.info('GDPR: Customer redaction request received', {
+    shop,
+    customerId: payload.customer?.id,
+    orders: payload.orders_to_redact?.length ?? 0,
+  });
+
+  await redactCustomer(shop, payload, webhookId);
+});
+
+onTopic('SHOP_REDACT', async ({ shop }) => {
+  // Called 48 hours after uninstall
+  logger.info('GDPR: Shop redaction request received', { shop });
+  await purgeShopData(shop);
+});
+
+// App lifecycle
+
+onTopic('APP_UNINSTALLED', async ({ shop }) => {
+  logger.info('App uninstalled', { shop });
+  // Shop data itself is deleted 48 hours later via shop/redact
+  await recordShopUninstall(shop);
+});
+
+// Catalog and orders - mirrored into the Product and Order tables.
+// Skipped (e.g. on replay) while the shop hasn't granted the feature's scopes.
+
+onTopic('PRODUCTS_CREATE', async ({ shop }, payload) => {
+  if (!(await isShopFeatureEnabled(shop, 'product_sync'))) return;
+  await syncProduct(shop, payload);
+});
+
+onTopic('PRODUCTS_UPDATE', async ({ shop }, payload) => {
+  if (!(await isShopFeatureEnabled(shop, 'product_sync'))) return;
+  await syncProduct(shop, payload);
+});
+
+onTopic('PRODUCTS_DELETE', async ({ shop }, payload) => {
+  if (!(await isShopFeatureEnabled(shop, 'product_sync'))) return;
+  await deleteProduct(shop, payload);
+});
+
+onTopic('ORDERS_CREATE', async ({ shop }, payload) => {
+  if (!(await isShopFeatureEnabled(shop, 'order_sync'))) return;
+  await syncOrder(shop, payload);
+
+  // Order-based pricing: count the order against the plan limit (test orders are free)
+  if (!payload.test) {
+    await recordBilledOrder(shop, { orderId: payload.admin_graphql_api_id, orderName: payload.name });
+  }
+});
+
+onTopic('ORDERS_UPDATED', async ({ shop }, payload) => {
+  if (!(await isShopFeatureEnabled(shop, 'order_sync'))) return;
+  await syncOrder(shop, payload);
+});
+
+// Billing - keeps Subscription.planStatus in step with Shopify
+
+onTopic('APP_SUBSCRIPTIONS_UPDATE', async ({ shop }, payload) => {
+  await applySubscriptionUpdate(shop, payload);
+});
@@ -0,0 +1,181 @@
+/**
+ * Durable Webhook Inbox
+ *
+ * Every delivery is stored in WebhookEvent and acknowledged immediately;
+ * processing happens in a background job. Shopify retries and
+ * occasionally duplicates deliveries; the unique webhook id makes sure
+ * each event is processed once, and stored events can be replayed later
+ * by an admin.
+ *
+ * Usage (see routes/webhooks.tsx):
+ *   const context = await authenticateWebhook(request);
+ *   return handleWebhookDelivery(context);
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '../db.server';
+import { logger } from './logger.server';
+import { enqueueJob } from './job-queue.server';
+import { getTopicHandler } from './webhook-router.server';
+// Registers the topic handlers with the router
+import './webhook-handlers.server';
+import type { WebhookPayloadMap, WebhookTopic } from '../types/webhooks';
+
+export type WebhookEventStatus = 'received' | 'processing' | 'processed' | 'failed';
+
+// Job type that processes a stored event (see job-handlers.server.ts)
+export const WEBHOOK_PROCESS_JOB = 'webhook.process';
+
+// Statuses an event can be (re)claimed from without forcing
+const CLAIMABLE_STATUSES: WebhookEventStatus[] = ['received', 'failed'];
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+/**
+ * Claim and run the handler for a stored event.
+ * Returns false if the event was already processed or is being processed
+ * elsewhere. `reclaim` also takes over events left in "processing" by a
+ * worker that died; `force` runs the event whatever its status (replays).
+ */
+export async function processWebhookEvent(
+  id: string,
+  options: { force?: boolean; reclaim?: boolean } = {}
+): Promise<boolean> {
+  const statuses: WebhookEventStatus[] = options.reclaim
+    ? [...CLAIMABLE_STATUSES, 'processing']
+    : CLAIMABLE_STATUSES;
+
+  const claimed = await prisma.webhookEvent.updateMany({
+    where: options.force ? { id } : { id, status: { in: statuses } },
+    data: { status: 'processing', attempts: { increment: 1 }, error: null },
+  });
+  if (claimed.count === 0) return false;
+
+  const event = await prisma.webhookEvent.findUniqueOrThrow({ where: { id } });
+  const handler = getTopicHandler(event.topic);
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for topic ${event.topic}`);
+    }
+
+    await handler(
+      {
+        shop: event.shop,
+        topic: event.topic as WebhookTopic,
+        webhookId: event.webhookId,
+        apiVersion: event.apiVersion,
+        eventId: event.id,
+      },
+      event.payload as unknown as WebhookPayloadMap[WebhookTopic]
+    );
+
+    await prisma.webhookEvent.update({
+      where: { id },
+      data: { status: 'processed', processedAt: new Date() },
+    });
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await prisma.webhookEvent.update({
+      where: { id },
+      data: { status: 'failed', error: message },
+    });
+    logger.error('Webhook processing failed', {
+      shop: event.shop,
+      topic: event.topic,
+      webhookEventId: id,
+      error: message,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Mark an event failed after its job died mid-run (e.g. the worker timed
+ * out), so a redelivery or replay can run it again instead of being
+ * skipped as a duplicate of an event still "processing"
+ */
+export async function failWebhookEvent(id: string, error: string): Promise<void> {
+  const { count } = await prisma.webhookEvent.updateMany({
+    where: { id, status: { in: ['received', 'processing'] } },
+    data: { status: 'failed', error },
+  });
+  if (count > 0) {
+    logger.error('Webhook event failed after its job died', { webhookEventId: id, error });
+  }
+}
+
+/**
+ * Store an authenticated webhook and queue it for processing.
+ * Responds as soon as the event is stored; the webhook.process job does
+ * the work. Duplicate deliveries are skipped unless the earlier attempt failed.
+ */
+export async function handleWebhookDelivery(context: {
+  shop: string;
+  topic: string;
+  webhookId: string;
+  apiVersion: string;
+  payload: unknown;
+}): Promise<Response> {
+  try {
+    // Event and job are written together so a stored event is never left unqueued
+    await prisma.$transaction(async (tx) => {
+      const event = await tx.webhookEvent.create({
+        data: {
+          webhookId: context.webhookId,
+          topic: context.topic,
+          shop: context.shop,
+          apiVersion: context.apiVersion,
+          payload: (context.payload ?? {}) as Prisma.InputJsonValue,
+        },
+      });
+      await enqueueJob(WEBHOOK_PROCESS_JOB, { webhookEventId: event.id }, { shop: context.shop, db: tx });
+    });
+    return new Response('OK', { status: 200 });
+  } catch (error) {
+    if (!isUniqueViolation(error)) throw error;
+  }
+
+  const existing = await prisma.webhookEvent.findUniqueOrThrow({
+    where: { webhookId: context.webhookId },
+  });
+
+  if (existing.status === 'failed') {
+    await enqueueJob(WEBHOOK_PROCESS_JOB, { webhookEventId: existing.id }, { shop: context.shop });
+    logger.info('Redelivered webhook re-queued after earlier failure', {
+      shop: context.shop,
+      topic: context.topic,
+      webhookId: context.webhookId,
+    });
+  } else {
+    logger.info('Duplicate webhook delivery skipped', {
+      shop: context.shop,
+      topic: context.topic,
+      webhookId: context.webhookId,
+      status: existing.status,
+    });
+  }
+
+  return new Response('OK', { status: 200 });
+}
+
+/**
+ * Re-run a stored event regardless of its current status
+ */
+export async function replayWebhookEvent(id: string) {
+  const event = await prisma.webhookEvent.findUnique({ where: { id } });
+  if (!event) return null;
+
+  logger.info('Replaying webhook event', {
+    shop: event.shop,
+    topic: event.topic,
+    webhookEventId: id,
+    previousStatus: event.status,
+  });
+
+  await processWebhookEvent(id, { force: true });
+  return prisma.webhookEvent.findUniqueOrThrow({ where: { id } });
+}
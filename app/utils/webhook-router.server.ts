@@ -0,0 +1,79 @@
+/**
+ * Webhook Topic Router
+ *
+ * Handlers register per topic with a typed payload; the single /webhooks
+ * route stores each delivery and the inbox dispatches it here.
+ *
+ * Usage (in webhook-handlers.server.ts):
+ *   onTopic('CUSTOMERS_REDACT', async (ctx, payload) => {
+ *     await redactCustomer(ctx.shop, payload, ctx.webhookId); // payload: CustomersRedactPayload
+ *   });
+ *
+ * To handle a new topic: add its payload type to WebhookPayloadMap,
+ * register a handler, and subscribe to it in shopify.app.toml with
+ * uri = "/webhooks".
+ */
+
+import type { WebhookPayloadMap, WebhookTopic } from '../types/webhooks';
+
+export interface WebhookContext {
+  shop: string;
+  topic: WebhookTopic;
+  webhookId: string;
+  apiVersion: string | null;
+  /** WebhookEvent id of the stored delivery */
+  eventId: string;
+}
+
+export type TopicHandler<T extends WebhookTopic> = (
+  ctx: WebhookContext,
+  payload: WebhookPayloadMap[T]
+) => Promise<void>;
+
+const topicHandlers = new Map<string, TopicHandler<WebhookTopic>>();
+
+/**
+ * Register the handler for a topic. Re-registering replaces it (safe across HMR).
+ */
+export function onTopic<T extends WebhookTopic>(topic: T, handler: TopicHandler<T>): void {
+  topicHandlers.set(topic, handler as TopicHandler<WebhookTopic>);
+}
+
+export function getTopicHandler(topic: string): TopicHandler<WebhookTopic> | undefined {
+  return topicHandlers.get(topic);
+}
+
+export function getRegisteredTopics(): string[] {
+  return Array.from(topicHandlers.keys());
+}
+
+/**
+ * Convert a toml / X-Shopify-Topic topic ("orders/create") to the
+ * upper-case form handlers are registered under ("ORDERS_CREATE")
+ */
+export function toWebhookTopic(tomlTopic: string): string {
+  return tomlTopic.trim().toUpperCase().replace(/[/.]/g, '_');
+}
+
+/**
+ * Extract every topic and compliance topic subscribed in shopify.app.toml
+ */
+export function parseSubscribedTopics(toml: string): string[] {
+  const topics = new Set<string>();
+  const pattern = /^\s*(?:compliance_)?topics\s*=\s*\[([^\]]*)\]/gm;
+
+  for (const match of toml.matchAll(pattern)) {
+    for (const quoted of match[1].matchAll(/"([^"]+)"/g)) {
+      topics.add(toWebhookTopic(quoted[1]));
+    }
+  }
+
+  return Array.from(topics);
+}
+
+/**
+ * Topics subscribed in shopify.app.toml that have no registered handler
+ */
+export function findUnhandledTopics(toml: string): string[] {
+  return parseSubscribedTopics(toml).filter((topic) => !topicHandlers.has(topic));
+}
@@ -1,35 +1,169 @@
+/**
+ * HMAC Signature Verification
+ *
+ * Verifies signed requests from Shopify and from our own integrations:
+ * - Webhooks and Flow actions (X-Shopify-Hmac-Sha256, base64 over the raw body)
+ * - App proxy callbacks (`signature` query parameter, hex over sorted params)
+ * - Internal integrations signed with signPayload()
+ *
+ * All comparisons are constant-time, and every check accepts a list of
+ * secrets so the app secret can be rotated without dropping requests:
+ * set SHOPIFY_API_SECRET to the new secret and SHOPIFY_API_SECRET_PREVIOUS
+ * to the old one until every in-flight delivery has been signed with the new one.
+ *
+ * Usage:
+ *   const { payload } = await readVerifiedBody<FlowActionPayload>(request);
+ */
+
 import crypto from 'crypto';
-import { logger } from '~/utils/logger.server';
+import { env, getOptionalEnv } from './env.server';
+import { toWebhookTopic } from './webhook-router.server';
 
-export function verifyWebhookSignature(
-  rawBody: string,
+export type SignatureEncoding = 'base64' | 'hex';
+
+/**
+ * Current app secret first, followed by any previous secrets still accepted
+ */
+export function getWebhookSecrets(): string[] {
+  const previous = env.shopifyApiSecretPrevious
+    .split(',')
+    .map((secret) => secret.trim());
+
+  return [getOptionalEnv('SHOPIFY_API_SECRET'), ...previous].filter(Boolean);
+}
+
+export function computeHmac(
+  body: string | Buffer,
+  secret: string,
+  encoding: SignatureEncoding = 'base64'
+): string {
+  return crypto.createHmac('sha256', secret).update(body).digest(encoding);
+}
+
+function timingSafeEqualString(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  // timingSafeEqual requires equal lengths; a length mismatch is already a failure
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Check a signature against every accepted secret in constant time
+ */
+export function verifyHmac(
+  body: string | Buffer,
   signature: string | null,
-  secret: string
+  secrets: string | string[],
+  encoding: SignatureEncoding = 'base64'
 ): boolean {
   if (!signature) return false;
-  const hash = crypto
-    .createHmac('sha256', secret)
-    .update(rawBody, 'utf8')
-    .digest('base64');
-  return hash === signature;
-}
-
-export async function handleWebhookWithRetry(
-  handler: () => Promise<void>,
-  maxRetries = 3
-) {
-  let lastError;
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      await handler();
-      return;
-    } catch (error) {
-      lastError = error;
-      logger.error(`Webhook processing attempt ${attempt} failed:`, error);
-      if (attempt < maxRetries) {
-        await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 1000));
-      }
+
+  const candidates = Array.isArray(secrets) ? secrets : [secrets];
+  // Check every secret (no early return) so timing doesn't reveal which one matched
+  let valid = false;
+  for (const secret of candidates) {
+    if (secret && timingSafeEqualString(computeHmac(body, secret, encoding), signature)) {
+      valid = true;
     }
   }
-  throw lastError;
+  return valid;
+}
+
+export function verifyWebhookSignature(
+  rawBody: string | Buffer,
+  signature: string | null,
+  secret: string | string[] = getWebhookSecrets()
+): boolean {
+  return verifyHmac(rawBody, signature, secret, 'base64');
+}
+
+interface VerifiedBodyOptions {
+  /** Header carrying the signature (default: X-Shopify-Hmac-Sha256) */
+  header?: string;
+  /** Accepted secrets (default: current and previous app secrets) */
+  secrets?: string[];
+  encoding?: SignatureEncoding;
+}
+
+/**
+ * Read the request body exactly once, verify its HMAC and parse it as JSON.
+ * Throws a 401 response for a bad signature and 400 for invalid JSON.
+ */
+export async function readVerifiedBody<T = unknown>(
+  request: Request,
+  options: VerifiedBodyOptions = {}
+): Promise<{ rawBody: Buffer; payload: T }> {
+  const header = options.header ?? 'X-Shopify-Hmac-Sha256';
+  const rawBody = Buffer.from(await request.arrayBuffer());
+
+  if (
+    !verifyHmac(
+      rawBody,
+      request.headers.get(header),
+      options.secrets ?? getWebhookSecrets(),
+      options.encoding ?? 'base64'
+    )
+  ) {
+    throw new Response('Invalid signature', { status: 401 });
+  }
+
+  try {
+    return { rawBody, payload: JSON.parse(rawBody.toString('utf8')) as T };
+  } catch (_error) {
+    throw new Response('Invalid JSON body', { status: 400 });
+  }
+}
+
+/**
+ * Verify a Shopify webhook and read its metadata from the X-Shopify-* headers.
+ * Used instead of authenticate.webhook so rotated secrets keep working.
+ */
+export async function authenticateWebhook<T = unknown>(request: Request) {
+  if (request.method !== 'POST') {
+    throw new Response('Method not allowed', { status: 405 });
+  }
+
+  const { payload } = await readVerifiedBody<T>(request);
+  const headers = request.headers;
+
+  return {
+    shop: headers.get('X-Shopify-Shop-Domain') || '',
+    topic: toWebhookTopic(headers.get('X-Shopify-Topic') || ''),
+    webhookId: headers.get('X-Shopify-Webhook-Id') || '',
+    apiVersion: headers.get('X-Shopify-API-Version') || '',
+    payload,
+  };
+}
+
+/**
+ * Verify an app proxy request. Shopify signs the query string (minus
+ * `signature`) with params sorted and joined without separators, hex encoded.
+ */
+export function verifyAppProxySignature(
+  url: string | URL,
+  secrets: string[] = getWebhookSecrets()
+): boolean {
+  const params = new URL(url).searchParams;
+  const signature = params.get('signature');
+
+  const grouped = new Map<string, string[]>();
+  for (const [key, value] of params) {
+    if (key === 'signature') continue;
+    grouped.set(key, [...(grouped.get(key) ?? []), value]);
+  }
+
+  const message = Array.from(grouped.entries())
+    .map(([key, values]) => `${key}=${values.join(',')}`)
+    .sort()
+    .join('');
+
+  return verifyHmac(message, signature, secrets, 'hex');
+}
+
+/**
+ * Sign an outbound payload for one of our own integrations.
+ * The receiver verifies it with readVerifiedBody(request, { header, secrets }).
+ */
+export function signPayload(body: string | Buffer, secret: string): string {
+  return computeHmac(body, secret, 'base64');
 }
@@ -0,0 +1,180 @@
+#!/usr/bin/env node
+/**
+ * Local Webhook Simulator
+ *
+ * Signs fixture or captured payloads with SHOPIFY_API_SECRET and POSTs them
+ * to the local /webhooks route with the same X-Shopify-* headers Shopify
+ * sends, so webhook handlers can be exercised without a tunnel.
+ *
+ * Usage:
+ *   npm run webhook:simulate -- customers/redact
+ *   npm run webhook:simulate -- all                      # every topic in shopify.app.toml
+ *   npm run webhook:simulate -- shop/redact --shop my-store.myshopify.com
+ *   npm run webhook:simulate -- --replay capture.json    # { topic, shop, payload } or an array of them
+ *   npm run webhook:simulate -- --event <WebhookEvent id> # replay a delivery stored in the database
+ *   npm run webhook:simulate -- customers/redact --webhook-id abc --dry-run
+ *
+ * Options:
+ *   --url <url>          Target (default: $SHOPIFY_APP_URL/webhooks or http://localhost:3000/webhooks)
+ *   --shop <domain>      Shop domain for fixtures (default: dev-store.myshopify.com)
+ *   --webhook-id <id>    Reuse a webhook id to test duplicate handling
+ *   --save <file>        Write the sent deliveries to a file for later --replay
+ *   --dry-run            Print the requests instead of sending them
+ *   --list               List available fixtures
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import {
+  DEFAULT_API_VERSION,
+  DEFAULT_SHOP,
+  buildFixture,
+  fixtureTopics,
+  webhookHeaders,
+} from "./webhook-fixtures.mjs";
+
+const ROOT = path.resolve(path.dirname(new URL(import.meta.url).pathname), "..");
+
+// Minimal .env loader so the script works without extra dependencies
+function loadDotEnv() {
+  const envPath = path.join(ROOT, ".env");
+  if (!fs.existsSync(envPath)) return;
+
+  for (const line of fs.readFileSync(envPath, "utf8").split("\n")) {
+    const match = line.match(/^\s*([A-Z0-9_]+)\s*=\s*(.*)\s*$/);
+    if (!match || process.env[match[1]] !== undefined) continue;
+    process.env[match[1]] = match[2].replace(/^["']|["']$/g, "");
+  }
+}
+
+function readToml() {
+  const tomlPath = path.join(ROOT, "shopify.app.toml");
+  return fs.existsSync(tomlPath) ? fs.readFileSync(tomlPath, "utf8") : "";
+}
+
+function subscribedTopics(toml) {
+  const topics = new Set();
+  for (const match of toml.matchAll(/^\s*(?:compliance_)?topics\s*=\s*\[([^\]]*)\]/gm)) {
+    for (const quoted of match[1].matchAll(/"([^"]+)"/g)) topics.add(quoted[1]);
+  }
+  return [...topics];
+}
+
+function tomlApiVersion(toml) {
+  return toml.match(/^\s*api_version\s*=\s*"([^"]+)"/m)?.[1] ?? DEFAULT_API_VERSION;
+}
+
+// X-Shopify-Topic uses the toml form ("customers/redact"); stored events use
+// CUSTOMERS_REDACT. The route normalizes either form, so fall back to the raw value.
+function toHeaderTopic(topic, knownTopics) {
+  const normalize = (value) => value.toUpperCase().replace(/[/.]/g, "_");
+  return knownTopics.find((known) => normalize(known) === topic) ?? topic;
+}
+
+async function loadStoredEvent(id, knownTopics) {
+  const { PrismaClient } = await import("@prisma/client");
+  const prisma = new PrismaClient();
+  try {
+    const event = await prisma.webhookEvent.findUnique({ where: { id } });
+    if (!event) throw new Error(`WebhookEvent ${id} not found`);
+    return {
+      topic: toHeaderTopic(event.topic, knownTopics),
+      shop: event.shop,
+      apiVersion: event.apiVersion ?? undefined,
+      payload: event.payload,
+    };
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+async function main() {
+  loadDotEnv();
+
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      url: { type: "string" },
+      shop: { type: "string", default: DEFAULT_SHOP },
+      "webhook-id": { type: "string" },
+      replay: { type: "string" },
+      event: { type: "string" },
+      save: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+      list: { type: "boolean", default: false },
+    },
+  });
+
+  const toml = readToml();
+
+  if (values.list) {
+    const subscribed = new Set(subscribedTopics(toml));
+    for (const topic of fixtureTopics()) {
+      console.log(`${subscribed.has(topic) ? "✓" : " "} ${topic}`);
+    }
+    console.log("\n✓ = subscribed in shopify.app.toml");
+    return;
+  }
+
+  const secret = process.env.SHOPIFY_API_SECRET;
+  if (!secret) {
+    throw new Error("SHOPIFY_API_SECRET is not set (add it to .env)");
+  }
+
+  const appUrl = process.env.SHOPIFY_APP_URL || "http://localhost:3000";
+  const url = values.url ?? new URL("/webhooks", appUrl).toString();
+  const apiVersion = tomlApiVersion(toml);
+
+  let deliveries;
+  if (values.replay) {
+    const captured = JSON.parse(fs.readFileSync(values.replay, "utf8"));
+    deliveries = Array.isArray(captured) ? captured : [captured];
+  } else if (values.event) {
+    const knownTopics = [...fixtureTopics(), ...subscribedTopics(toml)];
+    deliveries = [await loadStoredEvent(values.event, knownTopics)];
+  } else {
+    const requested = positionals[0];
+    if (!requested) {
+      throw new Error("Pass a topic (e.g. customers/redact), 'all', --replay <file> or --event <id>");
+    }
+    const topics = requested === "all" ? subscribedTopics(toml) : [requested];
+    deliveries = topics.map((topic) => ({
+      topic,
+      shop: values.shop,
+      payload: buildFixture(topic, { shop: values.shop }),
+    }));
+  }
+
+  for (const delivery of deliveries) {
+    const body = JSON.stringify(delivery.payload);
+    const headers = webhookHeaders(delivery.topic, body, {
+      secret,
+      shop: delivery.shop ?? values.shop,
+      apiVersion: delivery.apiVersion ?? apiVersion,
+      webhookId: values["webhook-id"],
+    });
+
+    if (values["dry-run"]) {
+      console.log(`POST ${url}`);
+      console.log(headers);
+      console.log(body, "\n");
+      continue;
+    }
+
+    const response = await fetch(url, { method: "POST", headers, body });
+    const text = await response.text();
+    const mark = response.ok ? "✅" : "❌";
+    console.log(`${mark} ${delivery.topic} → ${response.status} ${text.slice(0, 200)}`);
+  }
+
+  if (values.save) {
+    fs.writeFileSync(values.save, JSON.stringify(deliveries, null, 2));
+    console.log(`Saved ${deliveries.length} deliveries to ${values.save}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
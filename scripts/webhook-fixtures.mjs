@@ -0,0 +1,228 @@
+/**
+ * Webhook Fixture Library
+ *
+ * Realistic payloads for every topic the app handles, plus helpers to sign
+ * them exactly like Shopify does. Used by scripts/simulate-webhook.mjs and
+ * importable from tests:
+ *
+ *   import { buildFixture, createSignedWebhookRequest } from "../scripts/webhook-fixtures.mjs";
+ *   const request = createSignedWebhookRequest("customers/redact", buildFixture("customers/redact"), { secret });
+ *   const response = await action({ request, params: {}, context: {} });
+ */
+
+import crypto from "node:crypto";
+
+export const DEFAULT_SHOP = "dev-store.myshopify.com";
+export const DEFAULT_API_VERSION = "2025-10";
+
+const SHOP_ID = 690933842;
+const CUSTOMER = {
+  id: 207119551,
+  email: "bob.norman@mail.example.com",
+  phone: "555-625-1199",
+};
+
+const PRODUCT_ID = 8072107245761;
+const ORDER_ID = 5802748723401;
+
+function productPayload() {
+  return {
+    id: PRODUCT_ID,
+    admin_graphql_api_id: `gid://shopify/Product/${PRODUCT_ID}`,
+    title: "Example T-Shirt",
+    handle: "example-t-shirt",
+    vendor: "Acme",
+    product_type: "Shirts",
+    status: "active",
+    tags: "example, mens t-shirt",
+    created_at: "2024-01-02T09:00:00-05:00",
+    updated_at: new Date().toISOString(),
+    variants: [
+      {
+        id: 44316812771521,
+        admin_graphql_api_id: "gid://shopify/ProductVariant/44316812771521",
+        product_id: PRODUCT_ID,
+        title: "Small",
+        price: "19.99",
+        compare_at_price: "24.99",
+        sku: "TSHIRT-S",
+        position: 1,
+        inventory_quantity: 75,
+      },
+      {
+        id: 44316812804289,
+        admin_graphql_api_id: "gid://shopify/ProductVariant/44316812804289",
+        product_id: PRODUCT_ID,
+        title: "Medium",
+        price: "19.99",
+        compare_at_price: "24.99",
+        sku: "TSHIRT-M",
+        position: 2,
+        inventory_quantity: 50,
+      },
+    ],
+    images: [
+      {
+        id: 1000001,
+        admin_graphql_api_id: "gid://shopify/ProductImage/1000001",
+        src: "https://cdn.shopify.com/s/files/1/0000/0001/products/t-shirt.png",
+        alt: "Example T-Shirt",
+        width: 800,
+        height: 800,
+      },
+    ],
+  };
+}
+
+function orderPayload({ shop }) {
+  return {
+    id: ORDER_ID,
+    admin_graphql_api_id: `gid://shopify/Order/${ORDER_ID}`,
+    name: "#9999",
+    order_number: 1234,
+    email: CUSTOMER.email,
+    currency: "USD",
+    test: false,
+    total_price: "44.98",
+    subtotal_price: "39.98",
+    financial_status: "paid",
+    fulfillment_status: null,
+    customer: {
+      id: CUSTOMER.id,
+      email: CUSTOMER.email,
+      first_name: "Bob",
+      last_name: "Norman",
+    },
+    line_items: [
+      {
+        id: 14260395606217,
+        admin_graphql_api_id: "gid://shopify/LineItem/14260395606217",
+        product_id: PRODUCT_ID,
+        variant_id: 44316812771521,
+        title: "Example T-Shirt",
+        quantity: 2,
+        price: "19.99",
+      },
+    ],
+    order_status_url: `https://${shop}/orders/status`,
+    created_at: "2024-01-02T09:00:00-05:00",
+    updated_at: new Date().toISOString(),
+    cancelled_at: null,
+  };
+}
+
+/**
+ * Payload builders keyed by toml topic name
+ */
+const fixtures = {
+  "customers/data_request": ({ shop }) => ({
+    shop_id: SHOP_ID,
+    shop_domain: shop,
+    orders_requested: [299938, 280263, 220458],
+    customer: CUSTOMER,
+    data_request: { id: 9999 },
+  }),
+
+  "customers/redact": ({ shop }) => ({
+    shop_id: SHOP_ID,
+    shop_domain: shop,
+    customer: CUSTOMER,
+    orders_to_redact: [299938, 280263, 220458],
+  }),
+
+  "shop/redact": ({ shop }) => ({
+    shop_id: SHOP_ID,
+    shop_domain: shop,
+  }),
+
+  "app/uninstalled": ({ shop }) => ({
+    id: SHOP_ID,
+    name: "Dev Store",
+    email: "owner@example.com",
+    domain: shop,
+    myshopify_domain: shop,
+    plan_name: "partner_test",
+    plan_display_name: "Developer Preview",
+    currency: "USD",
+    country_code: "US",
+    created_at: "2024-01-02T09:00:00-05:00",
+  }),
+
+  "app_subscriptions/update": () => ({
+    app_subscription: {
+      admin_graphql_api_id: "gid://shopify/AppSubscription/1029266947",
+      name: "Growth",
+      status: "ACTIVE",
+      admin_graphql_api_shop_id: `gid://shopify/Shop/${SHOP_ID}`,
+      created_at: "2024-01-02T09:00:00-05:00",
+      updated_at: new Date().toISOString(),
+      currency: "USD",
+      price: "29.00",
+      interval: "every_30_days",
+      capped_amount: null,
+    },
+  }),
+
+  "products/create": productPayload,
+  "products/update": productPayload,
+  "products/delete": () => ({ id: PRODUCT_ID }),
+
+  "orders/create": orderPayload,
+  "orders/updated": orderPayload,
+};
+
+export function fixtureTopics() {
+  return Object.keys(fixtures);
+}
+
+/**
+ * Build the payload for a topic ("customers/redact")
+ */
+export function buildFixture(topic, { shop = DEFAULT_SHOP } = {}) {
+  const builder = fixtures[topic];
+  if (!builder) {
+    throw new Error(`No fixture for topic "${topic}". Available: ${fixtureTopics().join(", ")}`);
+  }
+  return builder({ shop });
+}
+
+export function signBody(body, secret) {
+  return crypto.createHmac("sha256", secret).update(body, "utf8").digest("base64");
+}
+
+/**
+ * Headers Shopify sends with a webhook delivery
+ */
+export function webhookHeaders(topic, body, options) {
+  const {
+    secret,
+    shop = DEFAULT_SHOP,
+    apiVersion = DEFAULT_API_VERSION,
+    webhookId = crypto.randomUUID(),
+  } = options;
+
+  return {
+    "Content-Type": "application/json",
+    "X-Shopify-Topic": topic,
+    "X-Shopify-Hmac-Sha256": signBody(body, secret),
+    "X-Shopify-Shop-Domain": shop,
+    "X-Shopify-Webhook-Id": webhookId,
+    "X-Shopify-Event-Id": crypto.randomUUID(),
+    "X-Shopify-API-Version": apiVersion,
+    "X-Shopify-Triggered-At": new Date().toISOString(),
+  };
+}
+
+/**
+ * Build a signed Request for calling a route action directly in tests
+ */
+export function createSignedWebhookRequest(topic, payload, options) {
+  const { url = "http://localhost:3000/webhooks", ...headerOptions } = options;
+  const body = JSON.stringify(payload);
+
+  return new Request(url, {
+    method: "POST",
+    headers: webhookHeaders(topic, body, headerOptions),
+    body,
+  });
+}